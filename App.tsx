@@ -1,44 +1,110 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { MazeConfig, MazeData } from './types';
-import { generateMaze } from './lib/mazeGenerator';
+import { analyzeMaze } from './lib/mazeStats';
+import { DFMReport } from './lib/dfm';
+import { MazeOverlayId } from './lib/overlays';
+import { DEFAULT_CONFIG } from './lib/defaults';
+import { decodeConfigHash, encodeConfigHash } from './lib/configFile';
+import { MazeWorker, createMazeWorker, isCancelled } from './lib/workerClient';
 import MazeControls from './components/MazeControls';
 import MazeViewer from './components/MazeViewer';
+import SeedExplorer from './components/SeedExplorer';
+import SheetLayout from './components/SheetLayout';
+import Playback from './components/Playback';
 
-const DEFAULT_CONFIG: MazeConfig = {
-  diameter: 290,
-  wallWidth: 11,
-  corridorWidth: 14,
-  difficulty: 5,
-  cornerRounding: true,
-  seed: Math.floor(Math.random() * 100000),
-  holeRadius: 12,
-  showEntryWedge: false,
+// A shared link's config, or the defaults with a random seed
+const readInitialConfig = (): MazeConfig => {
+  try {
+    const shared = decodeConfigHash(window.location.hash);
+    if (shared) return shared;
+  } catch (error: any) {
+    console.error("Link Error:", error);
+    alert(`Loading the link failed: ${error.message || "Unknown error"}.`);
+  }
+  return { ...DEFAULT_CONFIG, seed: Math.floor(Math.random() * 100000) };
 };
 
 function App() {
-  const [config, setConfig] = useState<MazeConfig>(DEFAULT_CONFIG);
+  const [config, setConfig] = useState<MazeConfig>(readInitialConfig);
   const [mazeData, setMazeData] = useState<MazeData | null>(null);
   const [showSolution, setShowSolution] = useState(false);
+  const [overlay, setOverlay] = useState<MazeOverlayId | null>(null);
+  const [showExplorer, setShowExplorer] = useState(false);
+  const [showLayout, setShowLayout] = useState(false);
+  const [showPlayback, setShowPlayback] = useState(false);
+  const stats = useMemo(() => (mazeData ? analyzeMaze(mazeData) : null), [mazeData]);
+  const [dfm, setDfm] = useState<DFMReport | null>(null);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+
+  // Generation runs in a Web Worker; only the newest request's result is shown
+  const workerRef = useRef<MazeWorker | null>(null);
+  const latestRequestRef = useRef(0);
+
+  const requestMaze = useCallback((newConfig: MazeConfig) => {
+    if (!workerRef.current) workerRef.current = createMazeWorker();
+    const requestId = ++latestRequestRef.current;
+    workerRef.current.generate(newConfig)
+      .then(data => {
+        if (requestId !== latestRequestRef.current) return;
+        setMazeData(data);
+        setDfm(null);
+        setGenerationError(null);
+        // Only a config that generates goes into the URL, so copying it shares this exact maze
+        const hash = encodeConfigHash(newConfig);
+        if (window.location.hash !== hash) window.history.replaceState(null, '', hash);
+        // The check runs the whole cut pipeline, so it stays off the main thread too
+        return workerRef.current?.checkManufacturability(data).then(report => {
+          if (requestId === latestRequestRef.current) setDfm(report);
+        });
+      })
+      .catch(error => {
+        if (isCancelled(error) || requestId !== latestRequestRef.current) return;
+        console.error("Generation Error:", error);
+        // The old maze no longer matches the settings, so it gives way to the reason
+        setMazeData(null);
+        setDfm(null);
+        setGenerationError(error.message || "Unknown error");
+      });
+  }, []);
 
   const regenerate = useCallback(() => {
     const newConfig = { ...config, seed: Math.floor(Math.random() * 100000) };
     setConfig(newConfig);
-    const data = generateMaze(newConfig);
-    setMazeData(data);
-  }, [config]);
+    requestMaze(newConfig);
+  }, [config, requestMaze]);
 
   useEffect(() => {
-    const data = generateMaze(config);
-    setMazeData(data);
+    requestMaze(config);
+    return () => {
+      workerRef.current?.dispose();
+      workerRef.current = null;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   const handleConfigChange = (newConfig: MazeConfig) => {
     setConfig(newConfig);
-    const data = generateMaze(newConfig);
-    setMazeData(data);
+    requestMaze(newConfig);
   };
 
+  // A link pasted into this tab only changes the hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      try {
+        const shared = decodeConfigHash(window.location.hash);
+        if (shared) {
+          setConfig(shared);
+          requestMaze(shared);
+        }
+      } catch (error: any) {
+        console.error("Link Error:", error);
+        alert(`Loading the link failed: ${error.message || "Unknown error"}.`);
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [requestMaze]);
+
   return (
     <div className="flex h-screen w-full bg-gray-900 text-white overflow-hidden font-sans">
       <MazeControls
@@ -47,14 +113,52 @@ function App() {
         onRegenerate={regenerate}
         showSolution={showSolution}
         onToggleSolution={() => setShowSolution(!showSolution)}
+        overlay={overlay}
+        onOverlayChange={setOverlay}
+        stats={stats}
+        entryCandidates={mazeData?.entryCandidates ?? []}
+        dfm={dfm}
+        onExploreSeeds={() => setShowExplorer(true)}
+        onLayoutSheets={() => setShowLayout(true)}
+        onPlayback={() => setShowPlayback(true)}
       />
 
       <main className="flex-1 relative">
+        {generationError && (
+            <div className="absolute inset-0 flex items-center justify-center p-8">
+                <p className="text-sm text-red-400">Generating the maze failed: {generationError}.</p>
+            </div>
+        )}
         {mazeData && (
             <MazeViewer
                 data={mazeData}
+                stats={stats}
+                dfm={dfm}
                 showSolution={showSolution}
                 onToggleSolution={() => setShowSolution(!showSolution)}
+                overlay={overlay}
+            />
+        )}
+        {showExplorer && (
+            <SeedExplorer
+                config={config}
+                onSelectSeed={(seed) => {
+                    handleConfigChange({ ...config, seed });
+                    setShowExplorer(false);
+                }}
+                onClose={() => setShowExplorer(false)}
+            />
+        )}
+        {showLayout && (
+            <SheetLayout
+                config={config}
+                onClose={() => setShowLayout(false)}
+            />
+        )}
+        {showPlayback && (
+            <Playback
+                config={config}
+                onClose={() => setShowPlayback(false)}
             />
         )}
       </main>
@@ -0,0 +1,409 @@
+/**
+ * Headless batch generator for maze cut files.
+ *
+ * Runs generateMaze and the Clipper export pipeline without React or a DOM and
+ * writes the same files the app downloads:
+ *   orbital_maze_{diameter}mm_seed{seed}.svg          stroked preview
+ *   orbital_maze_{diameter}mm_seed{seed}_outlined.svg laser cut outlines
+ *   orbital_maze_{diameter}mm_seed{seed}_cut.dxf      laser cut DXF
+ *   orbital_maze_{diameter}mm_seed{seed}_{base,maze,cover}.dxf  assembly sheets (--formats assembly)
+ *   orbital_maze_sheet{n}_of{count}_{W}x{H}mm.dxf     nested stock sheets (--formats sheets)
+ * With a color (from a manifest) it is appended before the extension,
+ * e.g. orbital_maze_290mm_seed38763_cut_lt_blue.dxf.
+ *
+ * Usage:
+ *   npm run mazegen -- --diameter 290 --seed 38763 --wedge --out dir/
+ *   npm run mazegen -- --manifest colors.json --rng-version 1 --topology nearest --dxf R12 --arc-tolerance 0 --chord-tolerance 0 --bolts 0 --out dir/
+ */
+
+import { parseArgs } from 'node:util';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { BoardShape, DXFVersion, EntryMode, GridTopology, MazeAlgorithmId, MazeConfig, MazeData, RngVersion, WedgeRetention } from '../types';
+import { DEFAULT_CONFIG } from '../lib/defaults';
+import { MAZE_ALGORITHMS } from '../lib/mazeAlgorithms';
+import { MAX_BOARD_SIDES, MIN_BOARD_SIDES } from '../lib/board';
+import { MATERIAL_PRESETS } from '../lib/materials';
+import { BUILT_IN_PRESETS } from '../lib/tuningPresets';
+import { normalizeConfig, parseConfigFile } from '../lib/configFile';
+import { generateMaze } from '../lib/mazeGenerator';
+import { checkManufacturability } from '../lib/dfm';
+import { AssemblySheet, ASSEMBLY_SHEETS, ExportFile, exportAssembly, exportBaseName, exportMazeFile, generateStrokedSVG } from '../lib/exporters';
+import { DEFAULT_SHEET_LAYOUT, SheetLayoutOptions, exportSheetLayout } from '../lib/nesting';
+
+const USAGE = `Usage: mazegen [options]
+
+Maze:
+  --diameter <mm>        Total diameter, corner to corner for a polygon (default ${DEFAULT_CONFIG.diameter})
+  --board <id>           Board outline: circle or polygon (default ${DEFAULT_CONFIG.boardShape})
+  --sides <n>            Sides of a polygon board, ${MIN_BOARD_SIDES}-${MAX_BOARD_SIDES} (default ${DEFAULT_CONFIG.boardSides})
+  --inner-diameter <mm>  Hole through an annular board, the goal instead of the center hole (default ${DEFAULT_CONFIG.innerDiameter}, none)
+  --wall <mm>            Minimum wall thickness (default ${DEFAULT_CONFIG.wallWidth})
+  --corridor <mm>        Corridor / puck width (default ${DEFAULT_CONFIG.corridorWidth})
+  --hole <mm>            Center and entry hole radius (default ${DEFAULT_CONFIG.holeRadius})
+  --difficulty <1-5>     Difficulty (default ${DEFAULT_CONFIG.difficulty})
+  --algorithm <id>       ${Object.keys(MAZE_ALGORITHMS).join(', ')}
+  --preset <id>          Growing Tree weights instead of the difficulty curve:
+                         ${BUILT_IN_PRESETS.map(p => p.id).join(', ')}
+  --braid <0-100>        Percentage of dead ends opened into loops
+  --rng-version <1|2>    PRNG generation (1 replays older seeds)
+  --topology <id>        Ring links: overlap, nearest (nearest replays older seeds)
+  --sharp                Miter joins instead of rounded corners
+  --wedge                Include the removable entry wedge (a slot plug with --entry-mode side)
+  --wedge-retention <id> ears (rubber band), dovetail or screw (default ears)
+  --wedge-ear <mm>       Ear / dovetail key length (default ${DEFAULT_CONFIG.wedgeEarLength})
+  --wedge-ear-position <%>  Where the ears start (or the key / screw sits), % from entry to rim (default ${DEFAULT_CONFIG.wedgeEarPosition})
+  --wedge-clearance <mm> Shrink the wedge for a sliding fit, cut apart from its socket (default ${DEFAULT_CONFIG.wedgeClearance})
+  --bolts <n>            Bolt / alignment-pin holes through every sheet (default ${DEFAULT_CONFIG.boltHoleCount})
+  --bolt-diameter <mm>   Bolt hole diameter (default ${DEFAULT_CONFIG.boltHoleDiameter})
+  --min-wall <mm>        Warn about walls thinner than this (default ${DEFAULT_CONFIG.minWallThickness})
+  --entry-angle <deg>    Rotate the entry here, clockwise from 12 o'clock (default 0)
+  --entry-rank <n>       Use the n-th hardest entry instead of the hardest (default 1)
+  --entry-mode <id>      hole (through the cover) or side (a slot through the rim)
+  --score-weights <l,i,r>  Start score weights for length, inflections and rotation
+                         (default ${DEFAULT_CONFIG.scoreWeights.length},${DEFAULT_CONFIG.scoreWeights.inflections},${DEFAULT_CONFIG.scoreWeights.rotation})
+
+Batch:
+  --seed <n>             Seed to generate; repeat or comma-separate for several
+  --manifest <file>      JSON seed->color map, or an array of { seed, color, ...config }
+  --config <file>        Config saved from the app; options override it, and its seed
+                         is used when no --seed or --manifest is given
+
+Output:
+  --out <dir>            Output directory (default .)
+  --formats <list>       Any of svg,outlined,dxf,assembly,sheets (default svg,outlined,dxf)
+                         assembly writes base, maze and cover DXFs per seed;
+                         sheets nests every seed onto stock sheets, one DXF per sheet
+  --dxf <version>        R2000 (LWPOLYLINE and circles, default) or R12 (POLYLINE only)
+  --arc-tolerance <mm>   Fit true arcs to cut outlines within this tolerance, 0 = line segments
+                         (default ${DEFAULT_CONFIG.arcTolerance})
+  --chord-tolerance <mm> Furthest a line segment may stray from its curve, 0 = fixed segment
+                         counts (default ${DEFAULT_CONFIG.chordTolerance})
+  --kerf <mm|material>   Laser kerf to compensate, in mm or a preset:
+                         ${MATERIAL_PRESETS.map(p => p.id).join(', ')}
+  --help                 Show this message
+
+Sheets:
+  --sheet <WxH>          Sheet size in mm (default ${DEFAULT_SHEET_LAYOUT.sheetWidth}x${DEFAULT_SHEET_LAYOUT.sheetHeight})
+  --sheet-margin <mm>    Clear border along the sheet edges (default ${DEFAULT_SHEET_LAYOUT.margin})
+  --part-gap <mm>        Minimum gap between parts (default ${DEFAULT_SHEET_LAYOUT.gap})
+  --sheet-layers <list>  Any of base,maze,cover (default ${DEFAULT_SHEET_LAYOUT.layers.join(',')})
+  --spare-wedges         Also nest a loose wedge per maze (with --wedge)
+`;
+
+type OutputFormat = 'svg' | 'outlined' | 'dxf' | 'assembly' | 'sheets';
+
+interface Job {
+  config: MazeConfig;
+  color?: string;
+}
+
+const fail = (message: string): never => {
+  console.error(`mazegen: ${message}`);
+  process.exit(1);
+};
+
+const parseSheetLayout = (
+  values: { sheet?: string; 'sheet-margin'?: string; 'part-gap'?: string; 'sheet-layers'?: string; 'spare-wedges'?: boolean },
+  base: MazeConfig
+): SheetLayoutOptions => {
+  let { sheetWidth, sheetHeight } = DEFAULT_SHEET_LAYOUT;
+  if (values.sheet !== undefined) {
+    const match = values.sheet.match(/^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/i);
+    if (!match) fail(`--sheet expects WxH in mm, got "${values.sheet}"`);
+    sheetWidth = Number(match![1]);
+    sheetHeight = Number(match![2]);
+  }
+
+  const layers = values['sheet-layers'] === undefined
+    ? DEFAULT_SHEET_LAYOUT.layers
+    : values['sheet-layers'].split(',').map(l => l.trim()) as AssemblySheet[];
+  for (const layer of layers) {
+    if (!(layer in ASSEMBLY_SHEETS)) fail(`unknown sheet layer "${layer}"`);
+  }
+
+  return {
+    sheetWidth,
+    sheetHeight,
+    margin: parseNumber(values['sheet-margin'], 'sheet-margin') ?? DEFAULT_SHEET_LAYOUT.margin,
+    gap: parseNumber(values['part-gap'], 'part-gap') ?? DEFAULT_SHEET_LAYOUT.gap,
+    layers,
+    spareWedges: values['spare-wedges'] ?? false,
+    dxfVersion: base.dxfVersion,
+  };
+};
+
+const parseNumber = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) fail(`--${name} expects a number, got "${value}"`);
+  return n;
+};
+
+const readConfig = (file: string): MazeConfig => {
+  try {
+    return parseConfigFile(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    return fail(`cannot read config ${file}: ${error.message}`);
+  }
+};
+
+/**
+ * Reads a manifest. Either { "38763": "lt_blue", ... } or
+ * [{ "seed": 38763, "color": "lt_blue", "difficulty": 4 }, ...].
+ */
+const readManifest = (file: string, base: MazeConfig): Job[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    return fail(`cannot read manifest ${file}: ${error.message}`);
+  }
+
+  if (Array.isArray(raw)) {
+    return raw.map((entry, i) => {
+      const { color, ...overrides } = entry ?? {};
+      if (!Number.isFinite(overrides.seed)) fail(`manifest entry ${i} has no numeric seed`);
+      // Entries get the same checks as a saved config
+      try {
+        return { config: normalizeConfig({ ...base, ...overrides }), color };
+      } catch (error: any) {
+        return fail(`manifest entry ${i}: ${error.message}`);
+      }
+    });
+  }
+
+  if (raw && typeof raw === 'object') {
+    return Object.entries(raw as Record<string, string>).map(([seed, color]) => {
+      if (!Number.isFinite(Number(seed))) fail(`manifest key "${seed}" is not a seed`);
+      return { config: { ...base, seed: Number(seed) }, color };
+    });
+  }
+
+  return fail(`manifest ${file} must be an object or an array`);
+};
+
+// Inserts the color before the extension: name_cut.dxf -> name_cut_lt_blue.dxf
+const withColor = (filename: string, color?: string) => {
+  if (!color) return filename;
+  const ext = path.extname(filename);
+  return `${filename.slice(0, -ext.length)}_${color}${ext}`;
+};
+
+// Cut files are listed with the bound on how far their lines stray from the true curves
+const withDeviation = (target: string, deviationBound?: number) =>
+  deviationBound === undefined ? target : `${target}  (deviation at most ${deviationBound.toFixed(4)}mm)`;
+
+// Command-line options, parsed by node:util parseArgs
+const OPTIONS = {
+  diameter: { type: 'string' },
+  board: { type: 'string' },
+  sides: { type: 'string' },
+  'inner-diameter': { type: 'string' },
+  wall: { type: 'string' },
+  corridor: { type: 'string' },
+  hole: { type: 'string' },
+  difficulty: { type: 'string' },
+  algorithm: { type: 'string' },
+  preset: { type: 'string' },
+  braid: { type: 'string' },
+  'rng-version': { type: 'string' },
+  topology: { type: 'string' },
+  sharp: { type: 'boolean', default: false },
+  wedge: { type: 'boolean', default: false },
+  'wedge-retention': { type: 'string' },
+  'wedge-ear': { type: 'string' },
+  'wedge-ear-position': { type: 'string' },
+  'wedge-clearance': { type: 'string' },
+  bolts: { type: 'string' },
+  'bolt-diameter': { type: 'string' },
+  'min-wall': { type: 'string' },
+  'entry-angle': { type: 'string' },
+  'entry-rank': { type: 'string' },
+  'entry-mode': { type: 'string' },
+  'score-weights': { type: 'string' },
+  seed: { type: 'string', multiple: true },
+  manifest: { type: 'string' },
+  config: { type: 'string' },
+  out: { type: 'string', default: '.' },
+  formats: { type: 'string', default: 'svg,outlined,dxf' },
+  dxf: { type: 'string' },
+  'arc-tolerance': { type: 'string' },
+  'chord-tolerance': { type: 'string' },
+  kerf: { type: 'string' },
+  sheet: { type: 'string' },
+  'sheet-margin': { type: 'string' },
+  'part-gap': { type: 'string' },
+  'sheet-layers': { type: 'string' },
+  'spare-wedges': { type: 'boolean', default: false },
+  help: { type: 'boolean', default: false },
+} as const;
+
+const parseOptions = () => {
+  try {
+    return parseArgs({ options: OPTIONS });
+  } catch (error: any) {
+    return fail(`${error.message}\n\n${USAGE}`);
+  }
+};
+
+const main = () => {
+  const { values } = parseOptions();
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const algorithm = values.algorithm as MazeAlgorithmId | undefined;
+  if (algorithm && !MAZE_ALGORITHMS[algorithm]) fail(`unknown algorithm "${algorithm}"`);
+
+  const preset = values.preset === undefined ? undefined : BUILT_IN_PRESETS.find(p => p.id === values.preset);
+  if (values.preset !== undefined && !preset) fail(`unknown preset "${values.preset}"`);
+
+  // A saved config replaces the defaults; options still override it
+  const defaults = values.config ? readConfig(values.config) : DEFAULT_CONFIG;
+
+  let scoreWeights = defaults.scoreWeights;
+  if (values['score-weights'] !== undefined) {
+    const weights = values['score-weights'].split(',').map(w => parseNumber(w.trim(), 'score-weights')!);
+    if (weights.length !== 3) fail('--score-weights expects three numbers: length,inflections,rotation');
+    scoreWeights = { length: weights[0], inflections: weights[1], rotation: weights[2] };
+  }
+
+  const rngVersion = parseNumber(values['rng-version'], 'rng-version') as RngVersion | undefined;
+  if (rngVersion !== undefined && rngVersion !== 1 && rngVersion !== 2) fail('--rng-version must be 1 or 2');
+
+  const topology = values.topology as GridTopology | undefined;
+  if (topology && topology !== 'overlap' && topology !== 'nearest') fail('--topology must be overlap or nearest');
+
+  const boardShape = values.board as BoardShape | undefined;
+  if (boardShape && boardShape !== 'circle' && boardShape !== 'polygon') fail('--board must be circle or polygon');
+
+  const boardSides = parseNumber(values.sides, 'sides');
+  if (boardSides !== undefined && !(Number.isInteger(boardSides) && boardSides >= MIN_BOARD_SIDES && boardSides <= MAX_BOARD_SIDES)) {
+    fail(`--sides must be a whole number from ${MIN_BOARD_SIDES} to ${MAX_BOARD_SIDES}`);
+  }
+
+  const difficulty = parseNumber(values.difficulty, 'difficulty');
+  if (difficulty !== undefined && !(Number.isInteger(difficulty) && difficulty >= 1 && difficulty <= 5)) {
+    fail('--difficulty must be a whole number from 1 to 5');
+  }
+
+  const braid = parseNumber(values.braid, 'braid');
+  if (braid !== undefined && !(braid >= 0 && braid <= 100)) fail('--braid must be from 0 to 100');
+
+  const entryMode = values['entry-mode'] as EntryMode | undefined;
+  if (entryMode && entryMode !== 'hole' && entryMode !== 'side') fail('--entry-mode must be hole or side');
+
+  const wedgeRetention = values['wedge-retention'] as WedgeRetention | undefined;
+  if (wedgeRetention && !['ears', 'dovetail', 'screw'].includes(wedgeRetention)) fail('--wedge-retention must be ears, dovetail or screw');
+
+  const dxfVersion = values.dxf?.toUpperCase() as DXFVersion | undefined;
+  if (dxfVersion && dxfVersion !== 'R12' && dxfVersion !== 'R2000') fail('--dxf must be R12 or R2000');
+
+  const material = MATERIAL_PRESETS.find(p => p.id === values.kerf);
+  const kerfWidth = material ? material.kerfWidth : parseNumber(values.kerf, 'kerf');
+
+  const base: MazeConfig = {
+    ...defaults,
+    diameter: parseNumber(values.diameter, 'diameter') ?? defaults.diameter,
+    boardShape: boardShape ?? defaults.boardShape,
+    boardSides: boardSides ?? defaults.boardSides,
+    innerDiameter: parseNumber(values['inner-diameter'], 'inner-diameter') ?? defaults.innerDiameter,
+    wallWidth: parseNumber(values.wall, 'wall') ?? defaults.wallWidth,
+    corridorWidth: parseNumber(values.corridor, 'corridor') ?? defaults.corridorWidth,
+    holeRadius: parseNumber(values.hole, 'hole') ?? defaults.holeRadius,
+    difficulty: difficulty ?? defaults.difficulty,
+    braid: braid ?? defaults.braid,
+    algorithm: algorithm ?? defaults.algorithm,
+    rngVersion: rngVersion ?? defaults.rngVersion,
+    gridTopology: topology ?? defaults.gridTopology,
+    dxfVersion: dxfVersion ?? defaults.dxfVersion,
+    arcTolerance: parseNumber(values['arc-tolerance'], 'arc-tolerance') ?? defaults.arcTolerance,
+    chordTolerance: parseNumber(values['chord-tolerance'], 'chord-tolerance') ?? defaults.chordTolerance,
+    kerfWidth: kerfWidth ?? defaults.kerfWidth,
+    boltHoleCount: parseNumber(values.bolts, 'bolts') ?? defaults.boltHoleCount,
+    boltHoleDiameter: parseNumber(values['bolt-diameter'], 'bolt-diameter') ?? defaults.boltHoleDiameter,
+    minWallThickness: parseNumber(values['min-wall'], 'min-wall') ?? defaults.minWallThickness,
+    tuning: preset ? { ...preset.tuning } : defaults.tuning,
+    scoreWeights,
+    entryAngle: parseNumber(values['entry-angle'], 'entry-angle') ?? defaults.entryAngle,
+    entryRank: parseNumber(values['entry-rank'], 'entry-rank') ?? defaults.entryRank,
+    entryMode: entryMode ?? defaults.entryMode,
+    cornerRounding: values.sharp ? false : defaults.cornerRounding,
+    showEntryWedge: values.wedge || defaults.showEntryWedge,
+    wedgeRetention: wedgeRetention ?? defaults.wedgeRetention,
+    wedgeEarLength: parseNumber(values['wedge-ear'], 'wedge-ear') ?? defaults.wedgeEarLength,
+    wedgeEarPosition: parseNumber(values['wedge-ear-position'], 'wedge-ear-position') ?? defaults.wedgeEarPosition,
+    wedgeClearance: parseNumber(values['wedge-clearance'], 'wedge-clearance') ?? defaults.wedgeClearance,
+  };
+
+  const formats = values.formats.split(',').map(f => f.trim()) as OutputFormat[];
+  for (const format of formats) {
+    if (!['svg', 'outlined', 'dxf', 'assembly', 'sheets'].includes(format)) fail(`unknown format "${format}"`);
+  }
+
+  const jobs: Job[] = values.manifest ? readManifest(values.manifest, base) : [];
+  for (const entry of values.seed ?? []) {
+    for (const seed of entry.split(',')) {
+      jobs.push({ config: { ...base, seed: parseNumber(seed.trim(), 'seed')! } });
+    }
+  }
+  if (jobs.length === 0 && values.config) jobs.push({ config: base });
+  if (jobs.length === 0) fail('nothing to do, pass --seed, --manifest or --config (see --help)');
+
+  fs.mkdirSync(values.out, { recursive: true });
+
+  const mazes: MazeData[] = [];
+  for (const job of jobs) {
+    // Generation and export throw on configs they cannot cut, e.g. a kerf wider than the corridors
+    try {
+      const data = generateMaze(job.config);
+      mazes.push(data);
+
+      // Files are still written; the warning goes to stderr so batch output stays clean
+      const dfm = checkManufacturability(data);
+      if (dfm.issues.length > 0) {
+        console.warn(`mazegen: seed ${data.config.seed}: ${dfm.issues.length} manufacturability issue(s), thinnest wall ${dfm.minThickness.toFixed(2)}mm`);
+      }
+      const files: Pick<ExportFile, 'filename' | 'content' | 'deviationBound'>[] = [];
+
+      if (formats.includes('svg')) {
+        files.push({ filename: `${exportBaseName(data)}.svg`, content: generateStrokedSVG(data) });
+      }
+      if (formats.includes('outlined')) {
+        files.push(exportMazeFile(data, 'svg'));
+      }
+      if (formats.includes('dxf')) {
+        files.push(exportMazeFile(data, 'dxf'));
+      }
+      if (formats.includes('assembly')) {
+        files.push(...exportAssembly(data, 'dxf'));
+      }
+
+      for (const file of files) {
+        const target = path.join(values.out, withColor(file.filename, job.color));
+        fs.writeFileSync(target, file.content);
+        console.log(withDeviation(target, file.deviationBound));
+      }
+    } catch (error: any) {
+      fail(`seed ${job.config.seed}: ${error.message}`);
+    }
+  }
+
+  if (formats.includes('sheets')) {
+    const layout = parseSheetLayout(values, base);
+    try {
+      for (const file of exportSheetLayout(mazes, layout)) {
+        const target = path.join(values.out, file.filename);
+        fs.writeFileSync(target, file.content);
+        console.log(withDeviation(target, file.deviationBound));
+      }
+    } catch (error: any) {
+      fail(`cannot lay out sheets: ${error.message}`);
+    }
+  }
+};
+
+main();
@@ -1,6 +1,17 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { MazeConfig } from '../types';
-import { Settings, RefreshCw, Eye, EyeOff, Circle, Square, Hash, PieChart } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { BoardShape, DXFVersion, EntryCandidate, EntryMode, GridTopology, GrowingTreeTuning, MazeAlgorithmId, MazeConfig, MazeStats, RngVersion, ScoreWeights, WedgeRetention } from '../types';
+import { MAZE_ALGORITHMS, growingTreeParams } from '../lib/mazeAlgorithms';
+import { MAX_BOARD_SIDES, MIN_BOARD_SIDES } from '../lib/board';
+import { maxInnerDiameter } from '../lib/polarGrid';
+import { BUILT_IN_PRESETS, TuningPreset, deletePreset, loadSavedPresets, savePreset } from '../lib/tuningPresets';
+import { RNG_VERSIONS } from '../lib/random';
+import { MATERIAL_PRESETS } from '../lib/materials';
+import { SCORE_WEIGHTS } from '../lib/mazeStats';
+import { parseConfigFile, serializeConfig } from '../lib/configFile';
+import { downloadFile } from '../lib/download';
+import { DFMFeature, DFMReport } from '../lib/dfm';
+import { MAZE_OVERLAYS, MazeOverlayId } from '../lib/overlays';
+import { Settings, RefreshCw, Eye, EyeOff, Circle, Square, Hash, PieChart, GitBranch, BarChart3, Search, LayoutGrid, ShieldAlert, Film, Map as MapIcon, SlidersHorizontal, Compass, Link, FileDown, FileUp, ChevronDown, ChevronRight, Save, Trash2 } from 'lucide-react';
 
 interface MazeControlsProps {
   config: MazeConfig;
@@ -8,17 +19,87 @@ interface MazeControlsProps {
   onRegenerate: () => void;
   showSolution: boolean;
   onToggleSolution: () => void;
+  overlay: MazeOverlayId | null;
+  onOverlayChange: (overlay: MazeOverlayId | null) => void;
+  stats: MazeStats | null;
+  entryCandidates: EntryCandidate[];
+  dfm: DFMReport | null;
+  onExploreSeeds: () => void;
+  onLayoutSheets: () => void;
+  onPlayback: () => void;
 }
 
+const DFM_FEATURE_LABELS: Record<DFMFeature, string> = {
+  corridor: 'corridor',
+  centerHole: 'center hole',
+  entryHole: 'entry hole',
+  boltHole: 'bolt hole',
+  wedge: 'wedge',
+  rim: 'rim',
+};
+
+// [key, label, min, max, step] for each Growing Tree weight slider
+const TUNING_SLIDERS: [keyof GrowingTreeTuning, string, number, number, number][] = [
+  ['branchProb', 'Branch Probability', 0, 1, 0.01],
+  ['inertiaWeight', 'Inertia', 0, 3000, 10],
+  ['inwardBonus', 'Inward Bonus', 0, 3000, 10],
+  ['changePenalty', 'Turn Penalty', 0, 1000, 10],
+  ['outPenalty', 'Outward Penalty', -3000, 1000, 10],
+];
+
+const SCORE_WEIGHT_FIELDS: [keyof ScoreWeights, string][] = [
+  ['length', 'Length'],
+  ['inflections', 'Inflections'],
+  ['rotation', 'Rotation'],
+];
+
+const BOARD_SHAPES: [BoardShape, string][] = [
+  ['circle', 'Circle'],
+  ['polygon', 'Polygon'],
+];
+
+const ENTRY_MODES: [EntryMode, string][] = [
+  ['hole', 'Top Hole'],
+  ['side', 'Side Slot'],
+];
+
+const WEDGE_RETENTIONS: [WedgeRetention, string][] = [
+  ['ears', 'Ears'],
+  ['dovetail', 'Dovetail'],
+  ['screw', 'Screw'],
+];
+
+const WEDGE_RETENTION_NOTES: Record<WedgeRetention, string> = {
+  ears: 'Ears reach the rim either side of the wedge; a rubber band round the rim holds it.',
+  dovetail: 'Flared keys lock the wedge sideways; it lifts out once the cover is off.',
+  screw: 'One 3mm screw through the wedge into the base layer.',
+};
+
+// Clock positions offered as shortcuts for the entry angle
+const CLOCK_POSITIONS: [number, string][] = [[0, '12'], [90, '3'], [180, '6'], [270, '9']];
+
 const MazeControls: React.FC<MazeControlsProps> = ({
     config,
     onChange,
     onRegenerate,
     showSolution,
-    onToggleSolution
+    onToggleSolution,
+    overlay,
+    onOverlayChange,
+    stats,
+    entryCandidates,
+    dfm,
+    onExploreSeeds,
+    onLayoutSheets,
+    onPlayback
 }) => {
   const [width, setWidth] = useState(340);
   const [isResizing, setIsResizing] = useState(false);
+  const [showTuning, setShowTuning] = useState(false);
+  const [savedPresets, setSavedPresets] = useState<TuningPreset[]>(() => loadSavedPresets());
+  const [presetName, setPresetName] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
+  const configInputRef = useRef<HTMLInputElement>(null);
 
   const startResizing = useCallback(() => {
     setIsResizing(true);
@@ -46,10 +127,65 @@ const MazeControls: React.FC<MazeControlsProps> = ({
     };
   }, [resize, stopResizing]);
 
-  const handleChange = (key: keyof MazeConfig, value: number | boolean) => {
+  const handleChange = <K extends keyof MazeConfig>(key: K, value: MazeConfig[K]) => {
     onChange({ ...config, [key]: value });
   };
 
+  const handleTuningChange = (key: keyof GrowingTreeTuning, value: number) => {
+    handleChange('tuning', { ...growingTreeParams(config), [key]: value });
+  };
+
+  const wedgeRetention = config.wedgeRetention ?? 'ears';
+
+  // The slider stops at a hole the current rings can still go around
+  const innerDiameterMax = Math.min(150, Math.floor(maxInnerDiameter(config) / 5) * 5);
+
+  // Matches the current weights against the presets so the picker shows a name
+  const currentPreset = config.tuning
+    ? [...BUILT_IN_PRESETS, ...savedPresets].find(p =>
+        TUNING_SLIDERS.every(([key]) => p.tuning[key] === config.tuning![key]))
+    : undefined;
+
+  // The URL always carries the current config (see App)
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1500);
+    } catch (error: any) {
+      console.error("Copy Link Error:", error);
+      alert(`Copying the link failed: ${error.message || "Unknown error"}.`);
+    }
+  };
+
+  const handleSaveConfig = () => {
+    downloadFile(serializeConfig(config), 'application/json', `orbital_maze_${config.diameter}mm_seed${config.seed}_config.json`);
+  };
+
+  const handleLoadConfig = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // lets the same file be picked again
+    if (!file) return;
+    try {
+      onChange(parseConfigFile(await file.text()));
+    } catch (error: any) {
+      console.error("Config Load Error:", error);
+      alert(`Loading config failed: ${error.message || "Unknown error"}.`);
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    try {
+      setSavedPresets(savePreset(name, growingTreeParams(config)));
+      setPresetName('');
+    } catch (error: any) {
+      console.error("Preset Save Error:", error);
+      alert(`Saving preset failed: ${error.message || "Unknown error"}.`);
+    }
+  };
+
   return (
     <div
         className="bg-gray-800 flex flex-col h-full border-r border-gray-700 shadow-2xl z-10 relative flex-shrink-0 group"
@@ -82,6 +218,55 @@ const MazeControls: React.FC<MazeControlsProps> = ({
             </div>
           </div>
 
+          {/* Board Shape */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-300">Board</label>
+            <div className="grid grid-cols-2 gap-2">
+                {BOARD_SHAPES.map(([shape, label]) => (
+                    <button
+                        key={shape}
+                        onClick={() => handleChange('boardShape', shape)}
+                        className={`py-1.5 rounded-lg text-sm border transition-colors ${(config.boardShape ?? 'circle') === shape ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            {(config.boardShape ?? 'circle') === 'polygon' && (
+              <>
+                <div className="flex justify-between">
+                  <label className="text-xs text-gray-400">Sides</label>
+                  <span className="text-xs text-emerald-400">{config.boardSides ?? 6}</span>
+                </div>
+                <input
+                  type="range"
+                  min={MIN_BOARD_SIDES}
+                  max={MAX_BOARD_SIDES}
+                  step="1"
+                  value={config.boardSides ?? 6}
+                  onChange={(e) => handleChange('boardSides', parseInt(e.target.value))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+              </>
+            )}
+            <div className="flex justify-between">
+              <label className="text-xs text-gray-400">Inner Diameter</label>
+              <span className="text-xs text-emerald-400">{(config.innerDiameter ?? 0) > 0 ? `${config.innerDiameter}mm` : 'Off'}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max={innerDiameterMax}
+              step="5"
+              value={config.innerDiameter ?? 0}
+              onChange={(e) => handleChange('innerDiameter', parseFloat(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            <p className="text-xs text-gray-500">
+                Diameter is measured corner to corner on a polygon. An inner diameter makes a ring: its hole replaces the center hole as the goal.
+            </p>
+          </div>
+
           {/* Puck Size / Corridor Width */}
           <div className="space-y-2">
             <div className="flex justify-between">
@@ -152,7 +337,178 @@ const MazeControls: React.FC<MazeControlsProps> = ({
                 ))}
             </div>
             <p className="text-xs text-gray-500 mt-1">
-                Higher levels increase branching and create deceptive long paths.
+                {config.tuning
+                    ? 'Overridden by the custom weights in Advanced Tuning.'
+                    : 'Higher levels increase branching and create deceptive long paths.'}
+            </p>
+          </div>
+
+          {/* Braid */}
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <label className="text-sm font-medium text-gray-300">Braid (Loops)</label>
+              <span className="text-sm text-emerald-400">{config.braid}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="5"
+              value={config.braid}
+              onChange={(e) => handleChange('braid', parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            <p className="text-xs text-gray-500">
+                Opens this share of dead ends into loops. Defeats the wall-follow trick.
+            </p>
+          </div>
+
+          {/* Algorithm */}
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <label className="text-sm font-medium text-gray-300">Algorithm</label>
+            </div>
+            <div className="relative">
+                <GitBranch className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+                <select
+                    value={config.algorithm}
+                    onChange={(e) => handleChange('algorithm', e.target.value as MazeAlgorithmId)}
+                    className="w-full bg-gray-700/50 border border-gray-600 rounded-lg pl-9 pr-3 py-2 text-sm text-emerald-400 focus:outline-none focus:border-emerald-500 transition-colors"
+                >
+                    {Object.values(MAZE_ALGORITHMS).map(algo => (
+                        <option key={algo.id} value={algo.id}>{algo.label}</option>
+                    ))}
+                </select>
+            </div>
+            <p className="text-xs text-gray-500">
+                {MAZE_ALGORITHMS[config.algorithm].description}
+            </p>
+          </div>
+
+          {/* Advanced Tuning (Growing Tree weights) */}
+          {config.algorithm === 'growingTree' && (
+          <div className="space-y-2">
+            <button
+                onClick={() => setShowTuning(!showTuning)}
+                className="flex items-center justify-between w-full"
+            >
+                <div className="flex items-center gap-2">
+                    <SlidersHorizontal className="w-4 h-4 text-gray-400" />
+                    <label className="text-sm font-medium text-gray-300 cursor-pointer">Advanced Tuning</label>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-xs text-emerald-400">
+                        {config.tuning ? currentPreset?.label ?? 'Custom' : `Difficulty ${config.difficulty}`}
+                    </span>
+                    {showTuning ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                </div>
+            </button>
+            {showTuning && (
+                <div className="space-y-3 pl-2 border-l border-gray-700">
+                    <select
+                        value={config.tuning ? currentPreset?.id ?? '' : ''}
+                        onChange={(e) => {
+                            const preset = [...BUILT_IN_PRESETS, ...savedPresets].find(p => p.id === e.target.value);
+                            handleChange('tuning', preset ? { ...preset.tuning } : null);
+                        }}
+                        className="w-full bg-gray-700/50 border border-gray-600 rounded-lg px-3 py-2 text-sm text-emerald-400 focus:outline-none focus:border-emerald-500 transition-colors"
+                    >
+                        <option value="">{config.tuning ? 'Custom' : 'Follow difficulty'}</option>
+                        <optgroup label="Built-in">
+                            {BUILT_IN_PRESETS.map(preset => (
+                                <option key={preset.id} value={preset.id}>{preset.label}</option>
+                            ))}
+                        </optgroup>
+                        {savedPresets.length > 0 && (
+                            <optgroup label="Saved">
+                                {savedPresets.map(preset => (
+                                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                                ))}
+                            </optgroup>
+                        )}
+                    </select>
+                    {currentPreset && (
+                        <p className="text-xs text-gray-500">{currentPreset.description}</p>
+                    )}
+
+                    {TUNING_SLIDERS.map(([key, label, min, max, step]) => (
+                        <div key={key} className="space-y-1">
+                            <div className="flex justify-between">
+                                <label className="text-xs text-gray-400">{label}</label>
+                                <span className="text-xs font-mono text-emerald-400">{growingTreeParams(config)[key]}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={min}
+                                max={max}
+                                step={step}
+                                value={growingTreeParams(config)[key]}
+                                onChange={(e) => handleTuningChange(key, parseFloat(e.target.value))}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                            />
+                        </div>
+                    ))}
+
+                    <div className="flex gap-1">
+                        <input
+                            type="text"
+                            value={presetName}
+                            onChange={(e) => setPresetName(e.target.value)}
+                            placeholder="Preset name"
+                            className="flex-1 min-w-0 bg-gray-700/50 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-emerald-400 focus:outline-none focus:border-emerald-500 transition-colors placeholder-gray-600"
+                        />
+                        <button
+                            onClick={handleSavePreset}
+                            disabled={!presetName.trim()}
+                            className="p-2 bg-gray-700/50 border border-gray-600 hover:bg-gray-700 disabled:opacity-50 rounded-lg text-gray-300 transition-colors"
+                            title="Save these weights as a preset"
+                        >
+                            <Save className="w-4 h-4" />
+                        </button>
+                        {currentPreset && savedPresets.includes(currentPreset) && (
+                            <button
+                                onClick={() => setSavedPresets(deletePreset(currentPreset.id))}
+                                className="p-2 bg-gray-700/50 border border-gray-600 hover:bg-gray-700 rounded-lg text-gray-300 transition-colors"
+                                title={`Delete preset "${currentPreset.label}"`}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                    {config.tuning && (
+                        <button
+                            onClick={() => handleChange('tuning', null)}
+                            className="w-full py-1.5 rounded-md text-xs border bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700 transition-colors"
+                        >
+                            Follow difficulty again
+                        </button>
+                    )}
+                    <p className="text-xs text-gray-500">
+                        Weights of the Growing Tree's neighbour choice. Custom weights override the difficulty.
+                    </p>
+                </div>
+            )}
+          </div>
+          )}
+
+          {/* Ring Links */}
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <label className="text-sm font-medium text-gray-300">Ring Links</label>
+            </div>
+            <div className="flex gap-1">
+                {([['overlap', 'Overlap'], ['nearest', 'Nearest (Legacy)']] as [GridTopology, string][]).map(([topology, label]) => (
+                    <button
+                        key={topology}
+                        onClick={() => handleChange('gridTopology', topology)}
+                        className={`flex-1 py-1.5 rounded-md text-xs border transition-colors ${config.gridTopology === topology ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500">
+                Overlap links cells on adjacent rings that overlap by at least half a cell. Nearest replays older seeds.
             </p>
           </div>
 
@@ -180,10 +536,31 @@ const MazeControls: React.FC<MazeControlsProps> = ({
             </p>
           </div>
 
+          {/* Entry Mode */}
+          <div className="space-y-2 pt-2 border-t border-gray-700/50">
+            <label className="text-sm font-medium text-gray-300">Entry</label>
+            <div className="grid grid-cols-2 gap-2">
+                {ENTRY_MODES.map(([mode, label]) => (
+                    <button
+                        key={mode}
+                        onClick={() => handleChange('entryMode', mode)}
+                        className={`py-1.5 rounded-lg text-sm border transition-colors ${(config.entryMode ?? 'hole') === mode ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500">
+                {(config.entryMode ?? 'hole') === 'side'
+                  ? 'The start corridor runs out through the rim, so the puck goes in from the side.'
+                  : 'The puck drops in through a hole in the cover above the start.'}
+            </p>
+          </div>
+
           {/* Entry Wedge Cutout */}
           <div className="space-y-2 pt-2 border-t border-gray-700/50">
              <div className="flex items-center justify-between">
-                <label className="text-sm font-medium text-gray-300">Entry Wedge Cutout</label>
+                <label className="text-sm font-medium text-gray-300">{(config.entryMode ?? 'hole') === 'side' ? 'Slot Plug Cutout' : 'Entry Wedge Cutout'}</label>
              </div>
              <button
                 onClick={() => handleChange('showEntryWedge', !config.showEntryWedge)}
@@ -200,7 +577,196 @@ const MazeControls: React.FC<MazeControlsProps> = ({
                 </div>
              </button>
              <p className="text-xs text-gray-500">
-                Removable wedge piece in middle layer for maintenance access.
+                {(config.entryMode ?? 'hole') === 'side'
+                  ? 'Removable plug that closes the side slot once the puck is in.'
+                  : 'Removable wedge piece in middle layer for maintenance access.'}
+            </p>
+            {config.showEntryWedge && (
+                <>
+                    <div className="flex gap-1">
+                        {WEDGE_RETENTIONS.map(([retention, label]) => (
+                            <button
+                                key={retention}
+                                onClick={() => handleChange('wedgeRetention', retention)}
+                                className={`flex-1 py-1.5 rounded-md text-xs border transition-colors ${wedgeRetention === retention ? 'bg-red-900/30 border-red-500/50 text-red-400' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {wedgeRetention !== 'screw' && (
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-xs">
+                                <span className="text-gray-400">{wedgeRetention === 'ears' ? 'Ear length' : 'Key length'}</span>
+                                <span className="font-mono text-red-400">{config.wedgeEarLength ?? 7}mm</span>
+                            </div>
+                            <input
+                              type="range"
+                              min="2"
+                              max="15"
+                              step="0.5"
+                              value={config.wedgeEarLength ?? 7}
+                              onChange={(e) => handleChange('wedgeEarLength', parseFloat(e.target.value))}
+                              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                            />
+                        </div>
+                    )}
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-xs">
+                            <span className="text-gray-400">{wedgeRetention === 'ears' ? 'Ears start' : wedgeRetention === 'dovetail' ? 'Key position' : 'Screw position'}</span>
+                            <span className="font-mono text-red-400">{config.wedgeEarPosition ?? 65}% to rim</span>
+                        </div>
+                        <input
+                          type="range"
+                          min="20"
+                          max="90"
+                          step="5"
+                          value={config.wedgeEarPosition ?? 65}
+                          onChange={(e) => handleChange('wedgeEarPosition', parseInt(e.target.value))}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-xs">
+                            <span className="text-gray-400">Fit clearance</span>
+                            <span className="font-mono text-red-400">{(config.wedgeClearance ?? 0).toFixed(2)}mm</span>
+                        </div>
+                        <input
+                          type="range"
+                          min="0"
+                          max="0.5"
+                          step="0.05"
+                          value={config.wedgeClearance ?? 0}
+                          onChange={(e) => handleChange('wedgeClearance', parseFloat(e.target.value))}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                        />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        {WEDGE_RETENTION_NOTES[wedgeRetention]} With clearance, the wedge and its socket are cut as separate lines.
+                    </p>
+                </>
+            )}
+          </div>
+
+          {/* Bolt Holes */}
+          <div className="space-y-2 pt-2 border-t border-gray-700/50">
+            <div className="flex justify-between">
+              <label className="text-sm font-medium text-gray-300">Bolt / Pin Holes</label>
+              <span className="text-sm text-emerald-400">{config.boltHoleCount > 0 ? `${config.boltHoleCount} × Ø${config.boltHoleDiameter}mm` : 'None'}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="12"
+              step="1"
+              value={config.boltHoleCount}
+              onChange={(e) => handleChange('boltHoleCount', parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            <input
+              type="range"
+              min="2"
+              max="8"
+              step="0.1"
+              value={config.boltHoleDiameter}
+              onChange={(e) => handleChange('boltHoleDiameter', parseFloat(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            <p className="text-xs text-gray-500">
+                Count and diameter of holes through every sheet of the assembly, placed in solid wall away from corridors.
+            </p>
+          </div>
+
+          {/* DXF Format */}
+          <div className="space-y-2 pt-2 border-t border-gray-700/50">
+            <div className="flex justify-between">
+              <label className="text-sm font-medium text-gray-300">DXF Format</label>
+            </div>
+            <div className="flex gap-1">
+                {([['R2000', 'R2000 (Arcs)'], ['R12', 'R12 (Legacy)']] as [DXFVersion, string][]).map(([version, label]) => (
+                    <button
+                        key={version}
+                        onClick={() => handleChange('dxfVersion', version)}
+                        className={`flex-1 py-1.5 rounded-md text-xs border transition-colors ${config.dxfVersion === version ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500">
+                R2000 cuts the boundary and holes as true circles. R12 writes line segments only, for older CAM software.
+            </p>
+          </div>
+
+          {/* Arc Outlines */}
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <label className="text-sm font-medium text-gray-300">Arc Fitting Tolerance</label>
+              <span className="text-sm text-emerald-400">{config.arcTolerance > 0 ? `${config.arcTolerance}mm` : 'Off'}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="0.2"
+              step="0.01"
+              value={config.arcTolerance}
+              onChange={(e) => handleChange('arcTolerance', parseFloat(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            <p className="text-xs text-gray-500">
+                Cuts corridor walls as real arcs instead of thousands of short lines. Off reproduces older exports.
+            </p>
+          </div>
+
+          {/* Chord Tolerance */}
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <label className="text-sm font-medium text-gray-300">Chord Tolerance</label>
+              <span className="text-sm text-emerald-400">{config.chordTolerance > 0 ? `${config.chordTolerance}mm` : 'Fixed'}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="0.1"
+              step="0.005"
+              value={config.chordTolerance}
+              onChange={(e) => handleChange('chordTolerance', parseFloat(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            <p className="text-xs text-gray-500">
+                How far a straight segment may stray from the curve it replaces. Large circles get more segments, small holes fewer. Fixed uses the older segment counts.
+            </p>
+          </div>
+
+          {/* Kerf Compensation */}
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <label className="text-sm font-medium text-gray-300">Kerf Compensation</label>
+              <span className="text-sm text-emerald-400">{config.kerfWidth > 0 ? `${config.kerfWidth}mm` : 'Off'}</span>
+            </div>
+            <div className="grid grid-cols-3 gap-1">
+                {MATERIAL_PRESETS.map(preset => (
+                    <button
+                        key={preset.id}
+                        onClick={() => handleChange('kerfWidth', preset.kerfWidth)}
+                        className={`py-1.5 rounded-md text-xs border transition-colors ${config.kerfWidth === preset.kerfWidth ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+                        title={`${preset.kerfWidth}mm kerf`}
+                    >
+                        {preset.label}
+                    </button>
+                ))}
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="0.5"
+              step="0.01"
+              value={config.kerfWidth}
+              onChange={(e) => handleChange('kerfWidth', parseFloat(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            <p className="text-xs text-gray-500">
+                Shrinks corridors and holes and grows the outer edge and wedge by half the kerf, so parts cut to design size.
             </p>
           </div>
 
@@ -222,8 +788,202 @@ const MazeControls: React.FC<MazeControlsProps> = ({
              <p className="text-xs text-gray-500">
                 Manually set to reproduce a specific maze.
             </p>
+             <div className="flex gap-1">
+                {(Object.keys(RNG_VERSIONS).map(Number) as RngVersion[]).map(version => (
+                    <button
+                        key={version}
+                        onClick={() => handleChange('rngVersion', version)}
+                        className={`flex-1 py-1.5 rounded-md text-xs border transition-colors ${config.rngVersion === version ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+                    >
+                        {RNG_VERSIONS[version].label}
+                    </button>
+                ))}
+             </div>
+             <p className="text-xs text-gray-500">
+                {RNG_VERSIONS[config.rngVersion].description}
+            </p>
           </div>
 
+          {/* Entry Point */}
+          <div className="space-y-2 pt-2 border-t border-gray-700/50">
+            <div className="flex justify-between">
+              <div className="flex items-center gap-2">
+                <Compass className="w-4 h-4 text-gray-400" />
+                <label className="text-sm font-medium text-gray-300">Entry Point</label>
+              </div>
+              <span className="text-sm text-emerald-400">{config.entryAngle ?? 0}°</span>
+            </div>
+            <div className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min="0"
+                  max="355"
+                  step="5"
+                  value={config.entryAngle ?? 0}
+                  onChange={(e) => handleChange('entryAngle', parseInt(e.target.value))}
+                  className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+                {CLOCK_POSITIONS.map(([angle, label]) => (
+                    <button
+                        key={angle}
+                        onClick={() => handleChange('entryAngle', angle)}
+                        className={`w-8 py-1 rounded-md text-xs border transition-colors ${(config.entryAngle ?? 0) === angle ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+                        title={`${label} o'clock`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            {entryCandidates.length > 0 && (
+                <div className="space-y-1">
+                    <span className="text-xs text-gray-500">Candidate entries (hardest first)</span>
+                    {entryCandidates.map((candidate, i) => (
+                        <button
+                            key={candidate.nodeId}
+                            onClick={() => handleChange('entryRank', i + 1)}
+                            className={`flex justify-between w-full px-2 py-1 rounded-md text-xs border transition-colors ${(config.entryRank ?? 1) === i + 1 ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+                        >
+                            <span>#{i + 1} • {candidate.length} steps • {candidate.inflections} infl.</span>
+                            <span className="font-mono">{candidate.score.toFixed(0)}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="grid grid-cols-3 gap-2">
+                {SCORE_WEIGHT_FIELDS.map(([key, label]) => (
+                    <div key={key} className="space-y-1">
+                        <label className="text-xs text-gray-400">{label} ×</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={(config.scoreWeights ?? SCORE_WEIGHTS)[key]}
+                            onChange={(e) => handleChange('scoreWeights', { ...(config.scoreWeights ?? SCORE_WEIGHTS), [key]: parseFloat(e.target.value) || 0 })}
+                            className="w-full bg-gray-700/50 border border-gray-600 rounded-lg px-2 py-1 text-sm text-emerald-400 focus:outline-none focus:border-emerald-500 transition-colors"
+                        />
+                    </div>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500">
+                The entry is rotated to this angle, clockwise from 12 o'clock. Outer cells are ranked by score = length × steps + inflections × reversals + rotation × radians.
+            </p>
+          </div>
+
+          {/* Maze Statistics */}
+          {stats && (
+          <div className="space-y-2 pt-2 border-t border-gray-700/50">
+             <div className="flex items-center gap-2">
+                <BarChart3 className="w-4 h-4 text-gray-400" />
+                <label className="text-sm font-medium text-gray-300">Statistics</label>
+             </div>
+             <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                {([
+                    ['Solution', `${stats.solutionLengthMm.toFixed(0)}mm`],
+                    ['Steps', stats.solutionSteps],
+                    ['Nodes', stats.nodeCount],
+                    ['Dead ends', `${stats.deadEndCount} (${(stats.deadEndRatio * 100).toFixed(0)}%)`],
+                    ['Branching', stats.branchingFactor.toFixed(2)],
+                    ['Junctions', stats.junctionCount],
+                    ['Inflections', stats.radialInflections],
+                    ['Rotation', `${(stats.totalRotation * 180 / Math.PI).toFixed(0)}°`],
+                    ['Longest trap', `${stats.longestDeadEndMm.toFixed(0)}mm`],
+                    ['Loops', stats.loopCount],
+                ] as [string, string | number][]).map(([label, value]) => (
+                    <div key={label} className="flex justify-between">
+                        <span className="text-gray-500">{label}</span>
+                        <span className="text-emerald-400 font-mono">{value}</span>
+                    </div>
+                ))}
+             </div>
+             <div className="text-xs text-gray-500">
+                Score <span className="text-emerald-400 font-mono">{stats.score.toFixed(0)}</span>
+                {' '}= length {stats.scoreBreakdown.length.toFixed(0)}
+                {' '}+ inflections {stats.scoreBreakdown.inflections.toFixed(0)}
+                {' '}+ rotation {stats.scoreBreakdown.rotation.toFixed(0)}
+             </div>
+             <div className="space-y-1">
+                <span className="text-xs text-gray-500">Dead ends per ring</span>
+                <div className="flex items-end gap-0.5 h-8">
+                    {stats.deadEndsPerRing.slice(1).map((count, i) => (
+                        <div
+                            key={i}
+                            className="flex-1 bg-emerald-500/60 rounded-sm"
+                            style={{ height: `${(count / Math.max(1, ...stats.deadEndsPerRing)) * 100}%` }}
+                            title={`Ring ${i + 1}: ${count}`}
+                        />
+                    ))}
+                </div>
+             </div>
+          </div>
+          )}
+
+          {/* Analysis Overlay */}
+          <div className="space-y-2 pt-2 border-t border-gray-700/50">
+            <div className="flex items-center gap-2">
+                <MapIcon className="w-4 h-4 text-gray-400" />
+                <label className="text-sm font-medium text-gray-300">Overlay</label>
+            </div>
+            <div className="flex gap-1">
+                {([null, ...Object.keys(MAZE_OVERLAYS)] as (MazeOverlayId | null)[]).map(id => (
+                    <button
+                        key={id ?? 'none'}
+                        onClick={() => onOverlayChange(id)}
+                        className={`flex-1 py-1.5 rounded-md text-xs border transition-colors ${overlay === id ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+                    >
+                        {id ? MAZE_OVERLAYS[id].label : 'None'}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500">
+                {overlay ? MAZE_OVERLAYS[overlay].description : 'Colour the maze by distance, dead-end traps or branch points to see where its difficulty comes from.'}
+            </p>
+          </div>
+
+          {/* Manufacturability */}
+          <div className="space-y-2 pt-2 border-t border-gray-700/50">
+            <div className="flex justify-between">
+              <div className="flex items-center gap-2">
+                <ShieldAlert className="w-4 h-4 text-gray-400" />
+                <label className="text-sm font-medium text-gray-300">Minimum Wall</label>
+              </div>
+              <span className="text-sm text-emerald-400">{config.minWallThickness}mm</span>
+            </div>
+            <input
+              type="range"
+              min="0.5"
+              max="10"
+              step="0.1"
+              value={config.minWallThickness}
+              onChange={(e) => handleChange('minWallThickness', parseFloat(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            {dfm && (
+                <div className="text-xs text-gray-500">
+                    Thinnest wall <span className={`font-mono ${dfm.issues.length > 0 ? 'text-red-400' : 'text-emerald-400'}`}>{dfm.minThickness.toFixed(2)}mm</span>
+                    {dfm.issues.length === 0 && ' • no issues'}
+                </div>
+            )}
+            {dfm && dfm.issues.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto space-y-0.5 text-xs custom-scrollbar">
+                    {dfm.issues.map((issue, i) => {
+                        const x = (issue.from.x + issue.to.x) / 2;
+                        const y = (issue.from.y + issue.to.y) / 2;
+                        return (
+                            <li key={i} className="flex justify-between gap-2">
+                                <span className="text-red-400">
+                                    {issue.kind === 'merged' ? 'Touching' : 'Thin wall'}: {issue.between.map(f => DFM_FEATURE_LABELS[f]).join(' / ')}
+                                </span>
+                                <span className="text-gray-500 font-mono whitespace-nowrap" title={`r ${Math.hypot(x, y).toFixed(0)}mm, ${(Math.atan2(y, x) * 180 / Math.PI).toFixed(0)}°`}>
+                                    {issue.kind === 'merged' ? 'overlap' : `${issue.thickness.toFixed(2)}mm`}
+                                </span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            <p className="text-xs text-gray-500">
+                Walls thinner than this, and cuts that touch without a passage between them, are marked red on the maze.
+            </p>
+          </div>
 
           <div className="mt-auto flex flex-col gap-3 pt-4 border-t border-gray-700">
             <button
@@ -234,6 +994,58 @@ const MazeControls: React.FC<MazeControlsProps> = ({
                 {showSolution ? 'Hide Solution' : 'Show Solution'}
             </button>
 
+            <button
+                onClick={onExploreSeeds}
+                className="flex items-center justify-center gap-2 w-full py-2.5 rounded-lg transition-colors font-medium border bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+                <Search className="w-4 h-4" />
+                Explore Seeds
+            </button>
+
+            <button
+                onClick={onLayoutSheets}
+                className="flex items-center justify-center gap-2 w-full py-2.5 rounded-lg transition-colors font-medium border bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+                <LayoutGrid className="w-4 h-4" />
+                Sheet Layout
+            </button>
+
+            <button
+                onClick={onPlayback}
+                className="flex items-center justify-center gap-2 w-full py-2.5 rounded-lg transition-colors font-medium border bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+                <Film className="w-4 h-4" />
+                Playback
+            </button>
+
+            <div className="flex gap-2">
+                <button
+                    onClick={handleCopyLink}
+                    className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg transition-colors text-xs font-medium border bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-700"
+                    title="Copy a link that reproduces this exact maze"
+                >
+                    <Link className="w-3.5 h-3.5" />
+                    {linkCopied ? 'Copied' : 'Copy Link'}
+                </button>
+                <button
+                    onClick={handleSaveConfig}
+                    className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg transition-colors text-xs font-medium border bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-700"
+                    title="Save every setting as a JSON file"
+                >
+                    <FileDown className="w-3.5 h-3.5" />
+                    Save Config
+                </button>
+                <button
+                    onClick={() => configInputRef.current?.click()}
+                    className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg transition-colors text-xs font-medium border bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-700"
+                    title="Load settings from a saved JSON file"
+                >
+                    <FileUp className="w-3.5 h-3.5" />
+                    Load Config
+                </button>
+                <input ref={configInputRef} type="file" accept=".json,application/json" onChange={handleLoadConfig} className="hidden" />
+            </div>
+
             <button
               onClick={onRegenerate}
               className="flex items-center justify-center gap-2 w-full py-3 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg transition-colors font-medium border border-emerald-500 shadow-lg shadow-emerald-900/20"
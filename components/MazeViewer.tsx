@@ -1,23 +1,68 @@
-import React, { useRef, useState } from 'react';
-import { MazeData } from '../types';
-import { Download, ZoomIn, ZoomOut, Eye, EyeOff, FileCog, Loader2, FileDown } from 'lucide-react';
-import { createMazeOutline, generateEntryWedgePaths, EntryWedgeData } from '../lib/clipperUtils';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MazeData, MazeStats, Point } from '../types';
+import { DFMReport } from '../lib/dfm';
+import { Download, ZoomIn, ZoomOut, Eye, EyeOff, FileCog, Loader2, FileDown, X, Layers, Gamepad2, RotateCcw, Trophy } from 'lucide-react';
+import { entryWedgeOptions, generateEntryWedgePaths } from '../lib/clipperUtils';
+import { ExportFormat, exportBaseName } from '../lib/exporters';
+import { MazeWorker, createMazeWorker, isCancelled } from '../lib/workerClient';
+import { MAZE_ALGORITHMS } from '../lib/mazeAlgorithms';
+import { findBoltHoles } from '../lib/boltHoles';
+import { boardOf, boardPathD } from '../lib/board';
+import { downloadFile } from '../lib/download';
+import { Playfield, isAtGoal, movePuck } from '../lib/playfield';
+import { MAZE_OVERLAYS, MazeOverlayId, buildOverlays, distanceColor } from '../lib/overlays';
 
 interface MazeViewerProps {
   data: MazeData;
+  stats: MazeStats | null;
+  dfm: DFMReport | null;
   showSolution: boolean;
   onToggleSolution: () => void;
+  overlay: MazeOverlayId | null;
 }
 
+// mm the puck moves per arrow key press
+const PUCK_KEY_STEP = 2;
+
+const ARROW_KEYS: Record<string, Point> = {
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+};
+
+// 83400 -> "1:23.4"
+const formatElapsed = (ms: number): string =>
+  `${Math.floor(ms / 60000)}:${((ms % 60000) / 1000).toFixed(1).padStart(4, '0')}`;
+
 const MazeViewer: React.FC<MazeViewerProps> = ({
     data,
+    stats,
+    dfm,
     showSolution,
-    onToggleSolution
+    onToggleSolution,
+    overlay
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [zoom, setZoom] = useState(1);
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
+  const [exportStage, setExportStage] = useState('');
+  // mm; how far the last cut export's lines stray from the true curves
+  const [cutDeviation, setCutDeviation] = useState<number | null>(null);
+  const exportWorkerRef = useRef<MazeWorker | null>(null);
+
+  // Play mode: collision geometry comes from its own worker so exports stay independent
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playfield, setPlayfield] = useState<Playfield | null>(null);
+  const [playProgress, setPlayProgress] = useState(0);
+  const [puck, setPuck] = useState<Point | null>(null);
+  const [moves, setMoves] = useState(0);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [solved, setSolved] = useState(false);
+  const playWorkerRef = useRef<MazeWorker | null>(null);
+  const dragRef = useRef<{ pointerId: number; moved: boolean } | null>(null);
   const { config, pathD, solutionD } = data;
   
   const padding = 20;
@@ -29,351 +74,179 @@ const MazeViewer: React.FC<MazeViewerProps> = ({
   // The entry hole center should be at the start point (which is on the outermost corridor ring)
   const entryHoleX = data.startPoint.x;
   const entryHoleY = data.startPoint.y;
-
-  const handleDownloadSVG = () => {
-    if (!svgRef.current) return;
-    const svgData = new XMLSerializer().serializeToString(svgRef.current);
-    const blob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `orbital_maze_${config.diameter}mm_seed${config.seed}.svg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  const entryMode = config.entryMode ?? 'hole';
+  const isSideEntry = entryMode === 'side';
+  const board = boardOf(config);
+  const isAnnular = board.innerRadius > 0;
+
+  // Holes through every sheet of the assembly, placed in wall material
+  const boltHoles = useMemo(() => findBoltHoles(data), [data]);
+
+  const overlays = useMemo(() => (overlay ? buildOverlays(data) : null), [data, overlay]);
+  const activeOverlay = isPlaying ? null : overlay;
+
+  // Cancel any running export when the viewer unmounts
+  useEffect(() => () => {
+    exportWorkerRef.current?.dispose();
+    exportWorkerRef.current = null;
+    playWorkerRef.current?.dispose();
+    playWorkerRef.current = null;
+  }, []);
+
+  const resetGame = (field: Playfield) => {
+    setPuck(field.start);
+    setMoves(0);
+    setStartedAt(null);
+    setElapsed(0);
+    setSolved(false);
   };
 
-  const handleDownloadSVGOutlined = async () => {
-    setIsExporting(true);
-    setExportProgress(0);
-
-    await new Promise(resolve => setTimeout(resolve, 50));
+  const stopPlaying = () => {
+    playWorkerRef.current?.cancel();
+    dragRef.current = null;
+    setIsPlaying(false);
+    setPlayfield(null);
+    setPuck(null);
+  };
 
+  const startPlaying = async () => {
+    setIsPlaying(true);
+    setPlayProgress(0);
     try {
-        setExportProgress(20);
-
-        // Use Clipper.js for robust path offsetting and boolean union
-        // No entrance path - maze is closed, entry is via hole
-        const joinType = config.cornerRounding ? 'round' : 'miter';
-        const outlines = createMazeOutline(
-            pathD,
-            '', // No entrance path extending to edge
-            config.corridorWidth,
-            radius,
-            config.holeRadius,
-            joinType,
-            { x: entryHoleX, y: entryHoleY } // Entry hole position
-        );
-
-        setExportProgress(70);
-
-        // Generate wedge data if enabled
-        let wedgeData: EntryWedgeData | null = null;
-        if (config.showEntryWedge) {
-            wedgeData = generateEntryWedgePaths(
-                entryHoleX,
-                entryHoleY,
-                radius,
-                config.corridorWidth,
-                config.holeRadius
-            );
+        if (!playWorkerRef.current) playWorkerRef.current = createMazeWorker();
+        const field = await playWorkerRef.current.buildPlayfield(data, (progress) => setPlayProgress(progress));
+        setPlayfield(field);
+        resetGame(field);
+    } catch (error: any) {
+        if (!isCancelled(error)) {
+            console.error("Play Mode Error:", error);
+            alert(`Play mode failed: ${error.message || "Unknown error"}.`);
+            setIsPlaying(false);
         }
+    }
+  };
 
-        setExportProgress(80);
-
-        // Generate SVG with outlined paths
-        const wedgeSections = wedgeData ? `
-  <!-- ENTRY WEDGE (cut from middle layer) -->
-  <path d="${wedgeData.wedgePath}" fill="none" stroke="#FF0000" stroke-width="0.1"/>
-
-  <!-- WEDGE SCREW HOLE (3mm) -->
-  <path d="${wedgeData.screwHolePath}" fill="none" stroke="#FF0000" stroke-width="0.1"/>
-` : '';
-
-        const svgContent = `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg"
-     width="${config.diameter}mm"
-     height="${config.diameter}mm"
-     viewBox="${-halfView} ${-halfView} ${viewBoxSize} ${viewBoxSize}">
-
-  <!-- MAZE LAYER -->
-  <!-- Corridor outlines (merged, no overlaps) -->
-  <path d="${outlines.corridors}" fill="none" stroke="#000000" stroke-width="0.1"/>
-
-  <!-- Outer boundary -->
-  <path d="${outlines.boundary}" fill="none" stroke="#000000" stroke-width="0.1"/>
-
-  <!-- Center hole -->
-  <path d="${outlines.centerHole}" fill="none" stroke="#000000" stroke-width="0.1"/>
+  // A new maze ends the current game
+  useEffect(() => {
+    setCutDeviation(null);
+    if (isPlaying) stopPlaying();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data]);
+
+  // Tick the timer from the first move until the puck reaches the center
+  useEffect(() => {
+    if (startedAt === null || solved) return;
+    const timer = setInterval(() => setElapsed(Date.now() - startedAt), 100);
+    return () => clearInterval(timer);
+  }, [startedAt, solved]);
+
+  // Moves the puck towards `target`; returns true if it went anywhere
+  const tryMove = (target: Point): boolean => {
+    if (!playfield || !puck || solved) return false;
+    const next = movePuck(playfield, puck, target);
+    if (Math.hypot(next.x - puck.x, next.y - puck.y) < 0.01) return false;
+
+    const now = Date.now();
+    const began = startedAt ?? now;
+    if (startedAt === null) setStartedAt(now);
+    setPuck(next);
+    if (isAtGoal(playfield, next)) {
+        setSolved(true);
+        setElapsed(now - began);
+    }
+    return true;
+  };
 
-  <!-- Entry hole -->
-  <path d="${outlines.entryHole}" fill="none" stroke="#000000" stroke-width="0.1"/>
-${wedgeSections}
-</svg>`;
+  useEffect(() => {
+    if (!playfield) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+        const direction = ARROW_KEYS[event.key];
+        // Leave arrow keys alone in the sidebar's inputs
+        if (!direction || !puck || event.target instanceof HTMLInputElement) return;
+        event.preventDefault();
+        if (tryMove({ x: puck.x + direction.x * PUCK_KEY_STEP, y: puck.y + direction.y * PUCK_KEY_STEP })) {
+            setMoves(m => m + 1);
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Pointer events cover mouse, pen and touch
+  const toMazePoint = (event: React.PointerEvent): Point | null => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return null;
+    const p = new DOMPoint(event.clientX, event.clientY).matrixTransform(ctm.inverse());
+    return { x: p.x, y: p.y };
+  };
 
-        setExportProgress(95);
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!playfield || !puck || solved) return;
+    const p = toMazePoint(event);
+    // Grab anywhere on the puck, with a little slack for fingers
+    if (!p || Math.hypot(p.x - puck.x, p.y - puck.y) > playfield.puckRadius * 1.5) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerId: event.pointerId, moved: false };
+  };
 
-        const blob = new Blob([svgContent], { type: 'image/svg+xml;charset=utf-8' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `orbital_maze_${config.diameter}mm_seed${config.seed}_outlined.svg`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    const p = toMazePoint(event);
+    if (p && tryMove(p) && !drag.moved) {
+        drag.moved = true;
+        setMoves(m => m + 1);
+    }
+  };
 
-        setExportProgress(100);
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragRef.current?.pointerId === event.pointerId) dragRef.current = null;
+  };
 
-    } catch (error: any) {
-        console.error("SVG Outlined Export Error:", error);
-        alert(`Export failed: ${error.message || "Unknown error"}.`);
-    } finally {
-        setIsExporting(false);
-        setExportProgress(0);
-    }
+  const handleDownloadSVG = () => {
+    if (!svgRef.current) return;
+    const svgData = new XMLSerializer().serializeToString(svgRef.current);
+    downloadFile(svgData, 'image/svg+xml;charset=utf-8', `${exportBaseName(data)}.svg`);
   };
 
-  const handleExportDXF = async () => {
+  // Outlining and serialization run in a Web Worker so the UI stays responsive
+  const runExport = async (format: ExportFormat, assembly: boolean = false) => {
     setIsExporting(true);
     setExportProgress(0);
-
-    await new Promise(resolve => setTimeout(resolve, 50));
+    setExportStage('Starting');
 
     try {
-        setExportProgress(20);
-
-        // Use Clipper.js for robust path offsetting and boolean union
-        // No entrance path - maze is closed, entry is via hole
-        const joinType = config.cornerRounding ? 'round' : 'miter';
-        const outlines = createMazeOutline(
-            pathD,
-            '', // No entrance path extending to edge
-            config.corridorWidth,
-            radius,
-            config.holeRadius,
-            joinType,
-            { x: entryHoleX, y: entryHoleY } // Entry hole position
-        );
-
-        setExportProgress(50);
-
-        // Generate wedge data if enabled
-        let wedgeData: EntryWedgeData | null = null;
-        if (config.showEntryWedge) {
-            wedgeData = generateEntryWedgePaths(
-                entryHoleX,
-                entryHoleY,
-                radius,
-                config.corridorWidth,
-                config.holeRadius
-            );
-        }
-
-        setExportProgress(60);
-
-        // Generate DXF manually from the SVG paths
-        // DXF format: https://www.autodesk.com/techpubs/autocad/acad2000/dxf/
-        const dxfContent = generateDXF(outlines, config.diameter, wedgeData);
-
-        setExportProgress(90);
-
-        console.log("DXF length:", dxfContent.length);
-
-        // Download
-        const blob = new Blob([dxfContent], { type: 'application/dxf' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `orbital_maze_${config.diameter}mm_seed${config.seed}_cut.dxf`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-
-        setExportProgress(100);
-
+        if (!exportWorkerRef.current) exportWorkerRef.current = createMazeWorker();
+        const onProgress = (progress: number, stage: string) => {
+            setExportProgress(progress);
+            setExportStage(stage);
+        };
+        const files = assembly
+            ? await exportWorkerRef.current.exportAssembly(data, format, onProgress)
+            : [await exportWorkerRef.current.exportFile(data, format, onProgress)];
+        files.forEach(file => downloadFile(file.content, file.mimeType, file.filename));
+        setCutDeviation(Math.max(...files.map(file => file.deviationBound ?? 0)));
     } catch (error: any) {
-        console.error("DXF Export Error:", error);
-        alert(`Export failed: ${error.message || "Unknown error"}.`);
+        if (!isCancelled(error)) {
+            console.error(`${format.toUpperCase()} Export Error:`, error);
+            alert(`Export failed: ${error.message || "Unknown error"}.`);
+        }
     } finally {
         setIsExporting(false);
         setExportProgress(0);
+        setExportStage('');
     }
   };
 
-  // Generate DXF file from SVG path data (R12 format for maximum compatibility)
-  const generateDXF = (
-    outlines: { corridors: string; boundary: string; centerHole: string; entryHole: string },
-    diameter: number,
-    wedgeData: EntryWedgeData | null = null
-  ): string => {
-    let dxf = '';
-
-    // Helper to add a line to DXF
-    const add = (code: number | string, value: string | number) => {
-      dxf += `  ${code}\n${value}\n`;
-    };
+  const handleDownloadSVGOutlined = () => runExport('svg');
 
-    // HEADER section
-    add(0, 'SECTION');
-    add(2, 'HEADER');
-    add(9, '$ACADVER');
-    add(1, 'AC1009'); // AutoCAD R12 format
-    add(9, '$INSUNITS');
-    add(70, 4); // Millimeters
-    add(9, '$EXTMIN');
-    add(10, -diameter / 2);
-    add(20, -diameter / 2);
-    add(9, '$EXTMAX');
-    add(10, diameter / 2);
-    add(20, diameter / 2);
-    add(0, 'ENDSEC');
-
-    // TABLES section
-    add(0, 'SECTION');
-    add(2, 'TABLES');
-
-    // LTYPE table
-    add(0, 'TABLE');
-    add(2, 'LTYPE');
-    add(70, 1);
-    add(0, 'LTYPE');
-    add(2, 'CONTINUOUS');
-    add(70, 0);
-    add(3, 'Solid line');
-    add(72, 65);
-    add(73, 0);
-    add(40, 0.0);
-    add(0, 'ENDTAB');
-
-    // LAYER table - count depends on whether wedge is included
-    const layerCount = wedgeData ? 5 : 3;
-    add(0, 'TABLE');
-    add(2, 'LAYER');
-    add(70, layerCount);
-    // Layer 0
-    add(0, 'LAYER');
-    add(2, '0');
-    add(70, 0);
-    add(62, 7); // White
-    add(6, 'CONTINUOUS');
-    // Corridors layer
-    add(0, 'LAYER');
-    add(2, 'CORRIDORS');
-    add(70, 0);
-    add(62, 1); // Red
-    add(6, 'CONTINUOUS');
-    // Boundary layer
-    add(0, 'LAYER');
-    add(2, 'BOUNDARY');
-    add(70, 0);
-    add(62, 3); // Green
-    add(6, 'CONTINUOUS');
-
-    // Wedge layers (if enabled)
-    if (wedgeData) {
-      // Wedge cut layer (red)
-      add(0, 'LAYER');
-      add(2, 'WEDGE_CUT');
-      add(70, 0);
-      add(62, 1); // Red
-      add(6, 'CONTINUOUS');
-      // Wedge screw hole layer (yellow)
-      add(0, 'LAYER');
-      add(2, 'WEDGE_HOLE');
-      add(70, 0);
-      add(62, 2); // Yellow
-      add(6, 'CONTINUOUS');
-    }
+  const handleExportDXF = () => runExport('dxf');
 
-    add(0, 'ENDTAB');
-
-    add(0, 'ENDSEC');
-
-    // ENTITIES section
-    add(0, 'SECTION');
-    add(2, 'ENTITIES');
-
-    // Helper to parse SVG path and add polylines to DXF
-    const addPathToDXF = (pathD: string, layer: string) => {
-      if (!pathD || pathD.trim() === '') return;
-
-      const commands = pathD.match(/[MLZ][^MLZ]*/gi) || [];
-      let points: { x: number; y: number }[] = [];
-
-      for (const cmd of commands) {
-        const type = cmd[0].toUpperCase();
-        const coords = cmd.slice(1).trim();
-
-        if (type === 'M' || type === 'L') {
-          const nums = coords.split(/[\s,]+/).filter(s => s.length > 0).map(Number);
-          for (let i = 0; i < nums.length; i += 2) {
-            if (!isNaN(nums[i]) && !isNaN(nums[i + 1])) {
-              points.push({ x: nums[i], y: nums[i + 1] });
-            }
-          }
-        } else if (type === 'Z') {
-          // Close and output the polyline
-          if (points.length >= 2) {
-            add(0, 'POLYLINE');
-            add(8, layer);
-            add(66, 1); // Vertices follow
-            add(70, 1); // Closed polyline
-
-            for (const pt of points) {
-              add(0, 'VERTEX');
-              add(8, layer);
-              add(10, pt.x.toFixed(6));
-              add(20, pt.y.toFixed(6));
-              add(30, 0);
-            }
-
-            add(0, 'SEQEND');
-            add(8, layer);
-          }
-          points = [];
-        }
-      }
-
-      // Handle any remaining unclosed path
-      if (points.length >= 2) {
-        add(0, 'POLYLINE');
-        add(8, layer);
-        add(66, 1);
-        add(70, 0); // Open polyline
-
-        for (const pt of points) {
-          add(0, 'VERTEX');
-          add(8, layer);
-          add(10, pt.x.toFixed(6));
-          add(20, pt.y.toFixed(6));
-          add(30, 0);
-        }
+  // Base, maze and cover sheets as separate DXF files
+  const handleExportAssembly = () => runExport('dxf', true);
 
-        add(0, 'SEQEND');
-        add(8, layer);
-      }
-    };
-
-    addPathToDXF(outlines.corridors, 'CORRIDORS');
-    addPathToDXF(outlines.boundary, 'BOUNDARY');
-    addPathToDXF(outlines.centerHole, 'BOUNDARY');
-    addPathToDXF(outlines.entryHole, 'BOUNDARY');
-
-    // Add wedge entities if enabled
-    if (wedgeData) {
-      addPathToDXF(wedgeData.wedgePath, 'WEDGE_CUT');
-      addPathToDXF(wedgeData.screwHolePath, 'WEDGE_HOLE');
-    }
-
-    add(0, 'ENDSEC');
-
-    // EOF
-    add(0, 'EOF');
-
-    return dxf;
+  const handleCancelExport = () => {
+    exportWorkerRef.current?.cancel();
   };
 
   return (
@@ -383,8 +256,18 @@ ${wedgeSections}
                 Maze MAS 2025
             </h1>
             <p className="text-gray-400 text-sm mt-1">
-                {config.diameter}mm Ø • Difficulty {config.difficulty} • Seed {config.seed}
+                {config.diameter}mm Ø • {MAZE_ALGORITHMS[config.algorithm].label} • Difficulty {config.difficulty} • Seed {config.seed}
             </p>
+            {stats && (
+                <p className="text-gray-500 text-xs mt-1 font-mono">
+                    Solution {stats.solutionLengthMm.toFixed(0)}mm • {stats.deadEndCount} dead ends • {stats.radialInflections} inflections • Score {stats.score.toFixed(0)}
+                </p>
+            )}
+            {dfm && dfm.issues.length > 0 && (
+                <p className="text-red-400 text-xs mt-1 font-mono">
+                    {dfm.issues.length} manufacturability issue{dfm.issues.length === 1 ? '' : 's'} • thinnest wall {dfm.minThickness.toFixed(2)}mm
+                </p>
+            )}
        </div>
 
       <div className="flex-1 flex items-center justify-center overflow-hidden p-8">
@@ -403,15 +286,29 @@ ${wedgeSections}
             viewBox={`${-halfView} ${-halfView} ${viewBoxSize} ${viewBoxSize}`}
             xmlns="http://www.w3.org/2000/svg"
             className="w-full h-full drop-shadow-2xl"
+            style={playfield ? { touchAction: 'none' } : undefined}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
           >
-            {/* 1. Base Disk (The Material) */}
-            <circle 
-                cx="0" 
-                cy="0" 
-                r={radius} 
-                fill="#1f2937" 
-                stroke="none"
-            />
+            {/* 1. Base Disk (The Material), or the polygon / ring board */}
+            {board.sides === 0 && !isAnnular ? (
+                <circle 
+                    cx="0" 
+                    cy="0" 
+                    r={radius} 
+                    fill="#1f2937" 
+                    stroke="none"
+                />
+            ) : (
+                <path
+                    d={boardPathD(board)}
+                    fill="#1f2937"
+                    fillRule="evenodd"
+                    stroke="none"
+                />
+            )}
 
             {/* 2. Corridors (The Cut Paths) */}
             <path
@@ -423,33 +320,66 @@ ${wedgeSections}
               strokeLinejoin={config.cornerRounding ? "round" : "miter"}
             />
 
-            {/* 3. Entry Hole (same size as center hole) */}
-            <circle
-                cx={entryHoleX}
-                cy={entryHoleY}
-                r={config.holeRadius}
-                fill="#f3f4f6"
-            />
+            {/* 3. Entry Hole (same size as center hole), or the side-entry slot out through the rim */}
+            {isSideEntry ? (
+                <path
+                    d={data.entrancePathD}
+                    fill="none"
+                    stroke="#f3f4f6"
+                    strokeWidth={config.corridorWidth}
+                    strokeLinecap="butt"
+                />
+            ) : (
+                <circle
+                    cx={entryHoleX}
+                    cy={entryHoleY}
+                    r={config.holeRadius}
+                    fill="#f3f4f6"
+                />
+            )}
 
-            {/* 4. Center Hole / Goal */}
-            <circle
-                cx="0"
-                cy="0"
-                r={config.holeRadius}
-                fill="#f3f4f6"
-            />
+            {/* 4. Center Hole / Goal (an annular board's hole is the goal instead) */}
+            {!isAnnular && (
+                <circle
+                    cx="0"
+                    cy="0"
+                    r={config.holeRadius}
+                    fill="#f3f4f6"
+                />
+            )}
 
-            {/* 5. Entry Wedge Preview (when enabled) */}
+            {/* 5. Bolt / Alignment Holes */}
+            {boltHoles.map((hole, i) => (
+                <circle
+                    key={i}
+                    cx={hole.x}
+                    cy={hole.y}
+                    r={config.boltHoleDiameter / 2}
+                    fill="#f3f4f6"
+                />
+            ))}
+
+            {/* 6. Entry Wedge Preview (when enabled) */}
             {config.showEntryWedge && (() => {
                 const wedgeData = generateEntryWedgePaths(
                     entryHoleX,
                     entryHoleY,
                     radius,
                     config.corridorWidth,
-                    config.holeRadius
+                    config.holeRadius,
+                    entryWedgeOptions(config)
                 );
                 return (
                     <g className="wedge-preview">
+                        {/* Socket (only cut separately when the wedge has clearance) */}
+                        {wedgeData.socketPath && (
+                            <path
+                                d={wedgeData.socketPath}
+                                fill="none"
+                                stroke="#ef4444"
+                                strokeWidth="0.3"
+                            />
+                        )}
                         {/* Wedge Outline */}
                         <path
                             d={wedgeData.wedgePath}
@@ -469,7 +399,105 @@ ${wedgeSections}
                 );
             })()}
 
-            {/* 6. Solution Overlay */}
+            {/* 7. Analysis Overlay (distance, dead ends or branches), hidden while playing */}
+            {overlays && activeOverlay === 'distance' && overlays.passages.map((passage, i) => (
+                <path
+                    key={i}
+                    d={passage.d}
+                    fill="none"
+                    stroke={distanceColor(passage.distanceMm, overlays.maxDistanceMm)}
+                    strokeWidth={config.corridorWidth * 0.6}
+                    strokeLinecap="round"
+                />
+            ))}
+            {overlays && activeOverlay === 'deadEnds' && overlays.traps.map((trap, i) => (
+                <g key={i} className="dead-end">
+                    <path
+                        d={trap.d}
+                        fill="none"
+                        stroke="#f59e0b"
+                        strokeWidth={config.corridorWidth * 0.5}
+                        strokeLinecap="round"
+                        opacity={0.7}
+                    />
+                    <circle cx={trap.tip.x} cy={trap.tip.y} r={config.corridorWidth * 0.3} fill="#b45309" />
+                    <text
+                        x={trap.tip.x}
+                        y={trap.tip.y}
+                        fontSize={config.corridorWidth * 0.35}
+                        textAnchor="middle"
+                        dominantBaseline="central"
+                        fill="#fff"
+                        className="font-mono"
+                    >
+                        {trap.lengthMm.toFixed(0)}
+                    </text>
+                </g>
+            ))}
+            {overlays && activeOverlay === 'branches' && (
+                <g className="branch-exits">
+                    <path
+                        d={solutionD}
+                        fill="none"
+                        stroke="#10b981"
+                        strokeWidth={config.corridorWidth * 0.3}
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                    />
+                    {overlays.exits.map((exit, i) => (
+                        <path
+                            key={i}
+                            d={exit.d}
+                            fill="none"
+                            stroke={i % 2 === 0 ? '#22d3ee' : '#a78bfa'}
+                            strokeWidth={config.corridorWidth * 0.3}
+                            strokeLinecap="round"
+                            opacity={0.8}
+                        />
+                    ))}
+                    {overlays.exits.map((exit, i) => (
+                        <g key={i}>
+                            <circle cx={exit.point.x} cy={exit.point.y} r={config.corridorWidth * 0.35} fill="#064e3b" stroke="#10b981" strokeWidth="0.5" />
+                            <text
+                                x={exit.point.x}
+                                y={exit.point.y}
+                                fontSize={config.corridorWidth * 0.3}
+                                textAnchor="middle"
+                                dominantBaseline="central"
+                                fill="#fff"
+                                className="font-mono"
+                            >
+                                {exit.decoyMm.toFixed(0)}
+                            </text>
+                        </g>
+                    ))}
+                </g>
+            )}
+
+            {/* 8. Manufacturability Issues (thin walls and touching cuts), hidden while playing */}
+            {!isPlaying && dfm?.issues.map((issue, i) => (
+                <g key={i} className="dfm-issue">
+                    <circle
+                        cx={(issue.from.x + issue.to.x) / 2}
+                        cy={(issue.from.y + issue.to.y) / 2}
+                        r={config.corridorWidth / 2}
+                        fill="rgba(239, 68, 68, 0.25)"
+                        stroke="#ef4444"
+                        strokeWidth="0.5"
+                    />
+                    <line
+                        x1={issue.from.x}
+                        y1={issue.from.y}
+                        x2={issue.to.x}
+                        y2={issue.to.y}
+                        stroke="#ef4444"
+                        strokeWidth="1"
+                        strokeLinecap="round"
+                    />
+                </g>
+            ))}
+
+            {/* 9. Solution Overlay, with the other candidate entries numbered by rank */}
             {showSolution && (
                 <path
                     d={solutionD}
@@ -481,10 +509,123 @@ ${wedgeSections}
                     opacity={0.9}
                 />
             )}
+            {showSolution && !isPlaying && data.entryCandidates.map((candidate, i) => candidate.nodeId !== data.startNodeId && (
+                <g key={candidate.nodeId} className="entry-candidate">
+                    <circle cx={candidate.point.x} cy={candidate.point.y} r={config.corridorWidth * 0.35} fill="#7f1d1d" stroke="#ef4444" strokeWidth="0.5" />
+                    <text
+                        x={candidate.point.x}
+                        y={candidate.point.y}
+                        fontSize={config.corridorWidth * 0.4}
+                        textAnchor="middle"
+                        dominantBaseline="central"
+                        fill="#fff"
+                        className="font-mono"
+                    >
+                        {i + 1}
+                    </text>
+                </g>
+            ))}
+
+            {/* 10. Play Mode Puck */}
+            {playfield && puck && (
+                <circle
+                    cx={puck.x}
+                    cy={puck.y}
+                    r={playfield.puckRadius}
+                    fill={solved ? '#fbbf24' : '#10b981'}
+                    stroke="#064e3b"
+                    strokeWidth="0.8"
+                    className="cursor-grab"
+                />
+            )}
           </svg>
         </div>
       </div>
 
+      {/* Play Mode HUD */}
+      {isPlaying && (
+        <div className="absolute top-4 right-4 z-10 bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-64 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Gamepad2 className="w-4 h-4 text-emerald-400" />
+                    <span className="text-sm font-bold text-white">Play Mode</span>
+                </div>
+                <button onClick={stopPlaying} className="p-1 hover:bg-gray-800 rounded-lg text-gray-400" title="Exit Play Mode">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+            {!playfield ? (
+                <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Outlining corridors {playProgress}%
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 gap-2 text-xs">
+                        <div className="flex justify-between">
+                            <span className="text-gray-500">Moves</span>
+                            <span className="text-emerald-400 font-mono">{moves}</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span className="text-gray-500">Time</span>
+                            <span className="text-emerald-400 font-mono">{formatElapsed(elapsed)}</span>
+                        </div>
+                    </div>
+                    {solved ? (
+                        <div className="flex items-center gap-2 text-sm text-amber-400">
+                            <Trophy className="w-4 h-4" />
+                            Solved in {moves} moves, {formatElapsed(elapsed)}
+                        </div>
+                    ) : (
+                        <p className="text-xs text-gray-500">
+                            Drag the puck from the entry to the center, or use the arrow keys.
+                        </p>
+                    )}
+                    <button
+                        onClick={() => resetGame(playfield)}
+                        className="flex items-center justify-center gap-2 w-full py-1.5 rounded-lg text-xs border bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-700 transition-colors"
+                    >
+                        <RotateCcw className="w-3 h-3" />
+                        Restart
+                    </button>
+                </>
+            )}
+        </div>
+      )}
+
+      {/* Overlay Legend */}
+      {overlays && activeOverlay && (
+        <div className="absolute bottom-8 left-4 z-10 bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-64 space-y-2 pointer-events-none select-none">
+            <div className="text-sm font-bold text-white">{MAZE_OVERLAYS[activeOverlay].label}</div>
+            {activeOverlay === 'distance' && (
+                <>
+                    <div
+                        className="h-2 rounded-full"
+                        style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(t => distanceColor(t, 1)).join(', ')})` }}
+                    />
+                    <div className="flex justify-between text-xs font-mono text-gray-400">
+                        <span>0mm</span>
+                        <span>{overlays.maxDistanceMm.toFixed(0)}mm</span>
+                    </div>
+                </>
+            )}
+            {activeOverlay === 'deadEnds' && (
+                <div className="text-xs text-gray-400 font-mono">
+                    {overlays.traps.length} dead ends • longest {Math.max(0, ...overlays.traps.map(t => t.lengthMm)).toFixed(0)}mm
+                </div>
+            )}
+            {activeOverlay === 'branches' && (
+                <div className="text-xs text-gray-400 font-mono">
+                    {overlays.exits.length} junctions on the solution
+                </div>
+            )}
+            <div className="text-xs text-gray-400 font-mono">
+                Solution {overlays.solutionMm.toFixed(0)}mm • decoys {overlays.decoyMm.toFixed(0)}mm ({(overlays.decoyMm / Math.max(1, overlays.solutionMm + overlays.decoyMm) * 100).toFixed(0)}%)
+            </div>
+            <p className="text-xs text-gray-500">{MAZE_OVERLAYS[activeOverlay].description}</p>
+        </div>
+      )}
+
       {/* Toolbar */}
       <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-gray-800/90 backdrop-blur border border-gray-700 p-2 rounded-2xl shadow-xl z-20">
         <button 
@@ -510,6 +651,13 @@ ${wedgeSections}
         >
             {showSolution ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
         </button>
+        <button
+            onClick={isPlaying ? stopPlaying : startPlaying}
+            className={`p-3 rounded-xl transition-colors ${isPlaying ? 'bg-emerald-900/50 text-emerald-400' : 'hover:bg-gray-700 text-gray-300'}`}
+            title={isPlaying ? 'Exit Play Mode' : 'Play: drag a puck through the maze'}
+        >
+            <Gamepad2 className="w-5 h-5" />
+        </button>
         <div className="w-px h-6 bg-gray-700 mx-2" />
         <button
             onClick={handleDownloadSVG}
@@ -537,6 +685,35 @@ ${wedgeSections}
             {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileCog className="w-4 h-4" />}
             {isExporting ? `${exportProgress}%` : 'DXF'}
         </button>
+        <button
+            onClick={handleExportAssembly}
+            disabled={isExporting}
+            className="px-4 py-3 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 text-white rounded-xl font-medium transition-all flex items-center gap-2"
+            title="Download base, maze and cover sheets as separate DXF files"
+        >
+            <Layers className="w-4 h-4" />
+            Assembly
+        </button>
+        {isExporting && (
+            <>
+                <span className="text-xs text-gray-400 w-36 truncate" title={exportStage}>{exportStage}</span>
+                <button
+                    onClick={handleCancelExport}
+                    className="p-3 bg-red-900/50 hover:bg-red-900 text-red-400 rounded-xl transition-colors"
+                    title="Cancel Export"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+            </>
+        )}
+        {!isExporting && cutDeviation !== null && (
+            <span
+                className="text-xs text-gray-400 font-mono"
+                title="No cut line in the last export strays further than this from its true curve. A bound from the tolerances, not a measurement."
+            >
+                dev. ≤ {cutDeviation.toFixed(4)}mm
+            </span>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,291 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MazeConfig, MazeNode } from '../types';
+import { boardOf, boardPathD, goalHoleRadius, goalRadius } from '../lib/board';
+import { growingTreeParams, passagePathD } from '../lib/mazeAlgorithms';
+import { GenerationTrace, generationFrame, recordGeneration, solverFrame } from '../lib/playback';
+import { SOLVERS, SolverId } from '../lib/solvers';
+import { Film, X, Play, Pause, SkipBack, StepBack, StepForward } from 'lucide-react';
+
+interface PlaybackProps {
+  config: MazeConfig;
+  onClose: () => void;
+}
+
+type PlaybackMode = 'generation' | SolverId;
+
+// Steps per second offered by the speed slider
+const SPEEDS = [2, 5, 10, 25, 50, 100, 250, 1000];
+
+interface PlaybackViewProps {
+  config: MazeConfig;
+  trace: GenerationTrace;
+}
+
+// The controls and canvas for a recording that generated
+const PlaybackView: React.FC<PlaybackViewProps> = ({ config, trace }) => {
+  const [mode, setMode] = useState<PlaybackMode>('generation');
+  const [frame, setFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speedIndex, setSpeedIndex] = useState(3);
+  const speed = SPEEDS[speedIndex];
+
+  const solverRun = useMemo(
+    () => (mode === 'generation' ? null : SOLVERS[mode].solve(trace.data)),
+    [mode, trace]
+  );
+  const total = solverRun ? solverRun.steps.length : trace.steps.length;
+
+  const nodes = useMemo(() => new Map<string, MazeNode>(trace.data.nodes.map(n => [n.id, n])), [trace]);
+  const stepSize = config.corridorWidth + config.wallWidth;
+  const goal = goalRadius(config);
+  const passagesD = (pairs: [string, string][]) =>
+    pairs.map(([a, b]) => passagePathD(nodes.get(a)!, nodes.get(b)!, stepSize, goal)).join(' ');
+  const routeD = (ids: string[]) =>
+    ids.slice(1).map((id, i) => passagePathD(nodes.get(ids[i])!, nodes.get(id)!, stepSize, goal)).join(' ');
+
+  // Restart whenever the recording changes
+  useEffect(() => {
+    setFrame(0);
+    setIsPlaying(true);
+  }, [trace, mode]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let handle = 0;
+    let last = performance.now();
+    let carry = 0;
+    const tick = (now: number) => {
+      carry += ((now - last) / 1000) * speed;
+      last = now;
+      const advance = Math.floor(carry);
+      carry -= advance;
+      if (advance > 0) setFrame(f => Math.min(total, f + advance));
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [isPlaying, speed, total]);
+
+  useEffect(() => {
+    if (frame >= total) setIsPlaying(false);
+  }, [frame, total]);
+
+  const togglePlaying = () => {
+    if (!isPlaying && frame >= total) setFrame(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const stepBy = (delta: number) => {
+    setIsPlaying(false);
+    setFrame(f => Math.max(0, Math.min(total, f + delta)));
+  };
+
+  const generation = solverRun ? null : generationFrame(trace, frame);
+  const solving = solverRun ? solverFrame(solverRun.steps, frame) : null;
+  const isGrowingTree = config.algorithm === 'growingTree';
+  const params = growingTreeParams(config);
+
+  const radius = config.diameter / 2;
+  const pad = 5;
+  const cw = config.corridorWidth;
+  const dot = (id: string | null, r: number, fill: string, key?: string) => {
+    const node = id ? nodes.get(id) : undefined;
+    return node ? <circle key={key} cx={node.x} cy={node.y} r={r} fill={fill} /> : null;
+  };
+
+  let caption = 'Ready';
+  if (generation?.current) {
+    const step = generation.current;
+    if (step.type === 'carve') caption = `${step.branch ? 'Branch' : 'Carve'} ${step.from} → ${step.to}`;
+    else if (step.type === 'backtrack') caption = `Backtrack from ${step.node}`;
+    else caption = `Braid ${step.from} → ${step.to}`;
+  } else if (solving?.current) {
+    caption = frame >= total
+      ? (solverRun!.path.length > 0 ? `Solved in ${total} moves` : `Gave up after ${total} moves`)
+      : `At ${solving.current}`;
+  }
+
+  const modeButton = (id: PlaybackMode, label: string, title: string) => (
+    <button
+      key={id}
+      onClick={() => setMode(id)}
+      title={title}
+      className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${mode === id ? 'bg-emerald-900/40 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+    >
+      {label}
+    </button>
+  );
+
+  const iconButton = (onClick: () => void, title: string, icon: React.ReactNode) => (
+    <button onClick={onClick} title={title} className="p-2 bg-gray-700/50 border border-gray-600 hover:bg-gray-700 rounded-lg text-gray-300 transition-colors">
+      {icon}
+    </button>
+  );
+
+  const stat = (label: string, value: string) => (
+    <div className="flex justify-between text-xs">
+      <span className="text-gray-400">{label}</span>
+      <span className="font-mono text-emerald-400">{value}</span>
+    </div>
+  );
+
+  return (
+    <>
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-800">
+        {modeButton('generation', 'Generation', 'Replay the carving of this maze')}
+        <div className="w-px h-6 bg-gray-700 mx-1" />
+        {Object.values(SOLVERS).map(solver => modeButton(solver.id, solver.label, solver.description))}
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 p-4 min-w-0">
+          <svg
+            viewBox={`${-radius - pad} ${-radius - pad} ${config.diameter + pad * 2} ${config.diameter + pad * 2}`}
+            className="w-full h-full"
+          >
+            <path d={boardPathD(boardOf(config))} fill="#1f2937" fillRule="evenodd" />
+
+            {generation && (
+              <>
+                <path d={passagesD(generation.carved)} fill="none" stroke="#f3f4f6" strokeWidth={cw} strokeLinecap="round" />
+                <path d={passagesD(generation.loops)} fill="none" stroke="#22d3ee" strokeWidth={cw} strokeLinecap="round" />
+                {isGrowingTree && generation.active.map(id => dot(id, cw * 0.2, '#10b981', id))}
+                {generation.current?.type === 'backtrack'
+                  ? dot(generation.current.node, cw * 0.4, '#ef4444')
+                  : generation.current && (
+                    <path
+                      d={passagesD([[generation.current.from, generation.current.to]])}
+                      fill="none"
+                      stroke={generation.current.type === 'carve' && generation.current.branch ? '#22d3ee' : '#f59e0b'}
+                      strokeWidth={cw * 0.5}
+                      strokeLinecap="round"
+                    />
+                  )}
+              </>
+            )}
+
+            {solving && (
+              <>
+                <path d={trace.data.pathD} fill="none" stroke="#374151" strokeWidth={cw} strokeLinecap="round" strokeLinejoin="round" />
+                <path d={passagesD(solving.retreated)} fill="none" stroke="#ef4444" strokeOpacity={0.35} strokeWidth={cw * 0.5} strokeLinecap="round" />
+                <path d={passagesD(solving.explored)} fill="none" stroke="#22d3ee" strokeWidth={cw * 0.5} strokeLinecap="round" />
+                {frame >= total && solverRun!.path.length > 0 && (
+                  <path d={routeD(solverRun!.path)} fill="none" stroke="#f59e0b" strokeWidth={cw * 0.5} strokeLinecap="round" strokeLinejoin="round" />
+                )}
+                <circle cx="0" cy="0" r={goalHoleRadius(config)} fill="none" stroke="#10b981" strokeWidth="1" />
+                {dot(solving.current, cw * 0.4, '#f59e0b')}
+              </>
+            )}
+          </svg>
+        </div>
+
+        <div className="w-64 p-4 border-l border-gray-800 space-y-2 overflow-y-auto">
+          <div className="text-sm text-gray-200 font-mono break-words">{caption}</div>
+          {stat('Step', `${frame} / ${total}`)}
+          {generation && (
+            <>
+              {stat('Passages', String(generation.carved.length + generation.loops.length))}
+              {isGrowingTree && (
+                <>
+                  {stat('Active cells', String(generation.active.length))}
+                  {stat('Branches', String(generation.branches))}
+                  {stat('Backtracks', String(generation.backtracks))}
+                  <div className="space-y-2 pt-2 border-t border-gray-700/50">
+                    <div className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Growing Tree</div>
+                    {stat('Branch probability', params.branchProb.toFixed(3))}
+                    {stat('Inertia weight', params.inertiaWeight.toFixed(0))}
+                    {stat('Inward bonus', params.inwardBonus.toFixed(0))}
+                    {stat('Turn penalty', params.changePenalty.toFixed(0))}
+                    {stat('Outward penalty', params.outPenalty.toFixed(0))}
+                    <p className="text-xs text-gray-500">
+                      Amber: growing from the newest cell. Cyan: a branch from a random active cell. Red: a cell leaving the active list.
+                    </p>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+          {solving && (
+            <>
+              {stat('Cells visited', `${solving.visited} / ${trace.data.nodes.length}`)}
+              {stat('Backtracks', String(solving.backtracks))}
+              {frame >= total && stat('Route', solverRun!.path.length > 0 ? `${solverRun!.path.length - 1} passages` : 'none')}
+              <p className="text-xs text-gray-500 pt-2 border-t border-gray-700/50">
+                {SOLVERS[mode as SolverId].description}
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 px-4 py-3 border-t border-gray-800">
+        {iconButton(() => { setIsPlaying(false); setFrame(0); }, 'Restart', <SkipBack className="w-4 h-4" />)}
+        {iconButton(() => stepBy(-1), 'Step back', <StepBack className="w-4 h-4" />)}
+        <button
+          onClick={togglePlaying}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-medium transition-colors"
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        {iconButton(() => stepBy(1), 'Step forward', <StepForward className="w-4 h-4" />)}
+        <input
+          type="range"
+          min="0"
+          max={total}
+          value={frame}
+          onChange={(e) => { setIsPlaying(false); setFrame(parseInt(e.target.value)); }}
+          className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+          title="Scrub"
+        />
+        <label className="text-xs text-gray-400">Speed</label>
+        <input
+          type="range"
+          min="0"
+          max={SPEEDS.length - 1}
+          value={speedIndex}
+          onChange={(e) => setSpeedIndex(parseInt(e.target.value))}
+          className="w-28 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+        />
+        <span className="text-xs font-mono text-emerald-400 w-16">{speed}/s</span>
+      </div>
+    </>
+  );
+};
+
+const Playback: React.FC<PlaybackProps> = ({ config, onClose }) => {
+  const { trace, error } = useMemo(() => {
+    try {
+      return { trace: recordGeneration(config), error: '' };
+    } catch (e: any) {
+      return { trace: null, error: e.message as string };
+    }
+  }, [config]);
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-950/95 backdrop-blur-sm flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <div className="flex items-center gap-3">
+          <Film className="text-emerald-400 w-5 h-5" />
+          <h2 className="text-lg font-bold text-white">Playback</h2>
+          <span className="text-xs text-gray-500">
+            Seed #{config.seed} • Difficulty {config.difficulty} • Current settings
+          </span>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg text-gray-400" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {trace ? (
+        <PlaybackView config={config} trace={trace} />
+      ) : (
+        <div className="flex-1 flex items-center justify-center p-8">
+          <p className="text-sm text-red-400">Recording the generation failed: {error || 'Unknown error'}.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Playback;
@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MazeConfig } from '../types';
+import { boardOf, boardPathD } from '../lib/board';
+import { searchSeeds, SeedSearchCriteria, SeedSearchResult } from '../lib/seedSearch';
+import { Search, X, Play, Square as StopIcon, Loader2 } from 'lucide-react';
+
+interface SeedExplorerProps {
+  config: MazeConfig;
+  onSelectSeed: (seed: number) => void;
+  onClose: () => void;
+}
+
+// Parses an optional numeric field; empty means "no constraint"
+const parseOptional = (value: string, scale: number = 1): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n * scale;
+};
+
+const SeedExplorer: React.FC<SeedExplorerProps> = ({ config, onSelectSeed, onClose }) => {
+  const [count, setCount] = useState('2000');
+  const [startSeed, setStartSeed] = useState(String(Math.floor(Math.random() * 100000)));
+  const [minLength, setMinLength] = useState('');
+  const [maxLength, setMaxLength] = useState('');
+  const [minInflections, setMinInflections] = useState('');
+  const [maxDeadEnds, setMaxDeadEnds] = useState('');
+  const [targetScore, setTargetScore] = useState('');
+
+  const [isSearching, setIsSearching] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0, matches: 0 });
+  const [results, setResults] = useState<SeedSearchResult[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // The search runs on the main thread in batches; stop them with the panel
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const radius = config.diameter / 2;
+  const pad = 5;
+
+  const handleSearch = async () => {
+    const criteria: SeedSearchCriteria = {
+      minSolutionLength: parseOptional(minLength),
+      maxSolutionLength: parseOptional(maxLength),
+      minInflections: parseOptional(minInflections),
+      maxDeadEndRatio: parseOptional(maxDeadEnds, 0.01),
+      targetScore: parseOptional(targetScore),
+    };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsSearching(true);
+    setResults([]);
+
+    try {
+      const found = await searchSeeds(config, criteria, {
+        startSeed: parseInt(startSeed) || 0,
+        count: Math.max(1, parseInt(count) || 1),
+        signal: controller.signal,
+        onProgress: (done, total, matches) => setProgress({ done, total, matches }),
+      });
+      setResults(found);
+    } catch (error: any) {
+      console.error("Seed Search Error:", error);
+      alert(`Search failed: ${error.message || "Unknown error"}.`);
+    } finally {
+      setIsSearching(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const field = (label: string, value: string, setValue: (v: string) => void, placeholder: string) => (
+    <div className="space-y-1">
+      <label className="text-xs text-gray-400">{label}</label>
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder={placeholder}
+        disabled={isSearching}
+        className="w-full bg-gray-700/50 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-emerald-400 focus:outline-none focus:border-emerald-500 transition-colors placeholder-gray-600"
+      />
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-950/95 backdrop-blur-sm flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <div className="flex items-center gap-3">
+          <Search className="text-emerald-400 w-5 h-5" />
+          <h2 className="text-lg font-bold text-white">Seed Explorer</h2>
+          <span className="text-xs text-gray-500">
+            {config.diameter}mm • Difficulty {config.difficulty} • Current settings
+          </span>
+        </div>
+        <button onClick={handleClose} className="p-2 hover:bg-gray-800 rounded-lg text-gray-400" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-3 p-4 border-b border-gray-800 items-end">
+        {field('Seeds to try', count, setCount, '2000')}
+        {field('Start seed', startSeed, setStartSeed, '0')}
+        {field('Min solution (mm)', minLength, setMinLength, 'any')}
+        {field('Max solution (mm)', maxLength, setMaxLength, 'any')}
+        {field('Min inflections', minInflections, setMinInflections, 'any')}
+        {field('Max dead ends (%)', maxDeadEnds, setMaxDeadEnds, 'any')}
+        {field('Target score', targetScore, setTargetScore, 'highest')}
+      </div>
+
+      <div className="flex items-center gap-4 px-4 py-3">
+        {isSearching ? (
+          <button
+            onClick={handleStop}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded-lg font-medium transition-colors"
+          >
+            <StopIcon className="w-4 h-4" />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleSearch}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-medium transition-colors"
+          >
+            <Play className="w-4 h-4" />
+            Search
+          </button>
+        )}
+        {(isSearching || progress.total > 0) && (
+          <div className="flex-1 flex items-center gap-3">
+            {isSearching && <Loader2 className="w-4 h-4 animate-spin text-emerald-400" />}
+            <div className="flex-1 h-2 bg-gray-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-emerald-500 transition-all"
+                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <span className="text-xs font-mono text-gray-400">
+              {progress.done}/{progress.total} • {progress.matches} matches
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        <div className="grid grid-cols-[repeat(auto-fill,minmax(160px,1fr))] gap-3">
+          {results.map(result => (
+            <button
+              key={result.seed}
+              onClick={() => onSelectSeed(result.seed)}
+              className="bg-gray-900 border border-gray-800 hover:border-emerald-500 rounded-xl p-2 text-left transition-colors"
+              title="Load this seed"
+            >
+              <svg
+                viewBox={`${-radius - pad} ${-radius - pad} ${config.diameter + pad * 2} ${config.diameter + pad * 2}`}
+                className="w-full aspect-square"
+              >
+                <path d={boardPathD(boardOf(config))} fill="#1f2937" fillRule="evenodd" />
+                <path
+                  d={result.pathD}
+                  fill="none"
+                  stroke="#f3f4f6"
+                  strokeWidth={config.corridorWidth}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+                <circle cx={result.startPoint.x} cy={result.startPoint.y} r={config.holeRadius} fill="#10b981" />
+              </svg>
+              <div className="mt-2 text-sm font-mono text-emerald-400">#{result.seed}</div>
+              <div className="text-xs text-gray-500 font-mono">
+                {result.stats.solutionLengthMm.toFixed(0)}mm • {result.stats.radialInflections} infl.
+              </div>
+              <div className="text-xs text-gray-500 font-mono">
+                {(result.stats.deadEndRatio * 100).toFixed(0)}% dead • score {result.stats.score.toFixed(0)}
+              </div>
+            </button>
+          ))}
+        </div>
+        {!isSearching && progress.total > 0 && results.length === 0 && (
+          <p className="text-sm text-gray-500 text-center mt-8">No seeds matched. Loosen the criteria or try more seeds.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SeedExplorer;
@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MazeConfig, MazeData } from '../types';
+import { generateMaze } from '../lib/mazeGenerator';
+import { AssemblySheet, ASSEMBLY_SHEETS } from '../lib/exporters';
+import { DEFAULT_SHEET_LAYOUT, NestedPartKind, SheetLayoutOptions, planSheetLayout } from '../lib/nesting';
+import { MazeWorker, createMazeWorker, isCancelled } from '../lib/workerClient';
+import { downloadFile } from '../lib/download';
+import { LayoutGrid, X, FileCog, Loader2 } from 'lucide-react';
+
+interface SheetLayoutProps {
+  config: MazeConfig;
+  onClose: () => void;
+}
+
+const PART_COLORS: Record<NestedPartKind, string> = {
+  base: '#374151',
+  maze: '#1f2937',
+  cover: '#4b5563',
+  wedge: 'rgba(239, 68, 68, 0.3)',
+};
+
+// "38763, 41046 50705" -> [38763, 41046, 50705]
+const parseSeeds = (text: string): number[] =>
+  text.split(/[\s,]+/).map(s => parseInt(s)).filter(n => !isNaN(n));
+
+const SheetLayout: React.FC<SheetLayoutProps> = ({ config, onClose }) => {
+  const [seedsText, setSeedsText] = useState(String(config.seed));
+  const [sheetWidth, setSheetWidth] = useState(String(DEFAULT_SHEET_LAYOUT.sheetWidth));
+  const [sheetHeight, setSheetHeight] = useState(String(DEFAULT_SHEET_LAYOUT.sheetHeight));
+  const [margin, setMargin] = useState(String(DEFAULT_SHEET_LAYOUT.margin));
+  const [gap, setGap] = useState(String(DEFAULT_SHEET_LAYOUT.gap));
+  const [layers, setLayers] = useState<AssemblySheet[]>(DEFAULT_SHEET_LAYOUT.layers);
+  const [spareWedges, setSpareWedges] = useState(DEFAULT_SHEET_LAYOUT.spareWedges);
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState(0);
+  const workerRef = useRef<MazeWorker | null>(null);
+
+  useEffect(() => () => {
+    workerRef.current?.dispose();
+    workerRef.current = null;
+  }, []);
+
+  const options: SheetLayoutOptions = {
+    sheetWidth: parseFloat(sheetWidth) || DEFAULT_SHEET_LAYOUT.sheetWidth,
+    sheetHeight: parseFloat(sheetHeight) || DEFAULT_SHEET_LAYOUT.sheetHeight,
+    margin: parseFloat(margin) || 0,
+    gap: parseFloat(gap) || 0,
+    layers,
+    spareWedges,
+    dxfVersion: config.dxfVersion,
+  };
+
+  // Every seed uses the current settings
+  const { mazes, generationError } = useMemo(() => {
+    try {
+      return { mazes: parseSeeds(seedsText).map(seed => generateMaze({ ...config, seed })), generationError: '' };
+    } catch (e: any) {
+      return { mazes: [] as MazeData[], generationError: e.message as string };
+    }
+  }, [seedsText, config]);
+
+  const { sheets, error } = useMemo(() => {
+    if (generationError) return { sheets: [], error: generationError };
+    try {
+      return { sheets: planSheetLayout(mazes, options), error: '' };
+    } catch (e: any) {
+      return { sheets: [], error: e.message as string };
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mazes, generationError, sheetWidth, sheetHeight, margin, gap, layers, spareWedges]);
+
+  const toggleLayer = (sheet: AssemblySheet) => {
+    setLayers(layers.includes(sheet) ? layers.filter(l => l !== sheet) : [...layers, sheet]);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportProgress(0);
+    try {
+      if (!workerRef.current) workerRef.current = createMazeWorker();
+      const files = await workerRef.current.exportSheetLayout(mazes, options, (progress) => setExportProgress(progress));
+      files.forEach(file => downloadFile(file.content, file.mimeType, file.filename));
+    } catch (error: any) {
+      if (!isCancelled(error)) {
+        console.error("Sheet Export Error:", error);
+        alert(`Export failed: ${error.message || "Unknown error"}.`);
+      }
+    } finally {
+      setIsExporting(false);
+      setExportProgress(0);
+    }
+  };
+
+  const field = (label: string, value: string, setValue: (v: string) => void) => (
+    <div className="space-y-1">
+      <label className="text-xs text-gray-400">{label}</label>
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="w-full bg-gray-700/50 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-emerald-400 focus:outline-none focus:border-emerald-500 transition-colors"
+      />
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-950/95 backdrop-blur-sm flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <div className="flex items-center gap-3">
+          <LayoutGrid className="text-emerald-400 w-5 h-5" />
+          <h2 className="text-lg font-bold text-white">Sheet Layout</h2>
+          <span className="text-xs text-gray-500">
+            {mazes.length} mazes • {sheets.length} sheets • Current settings
+          </span>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg text-gray-400" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-6 gap-3 p-4 border-b border-gray-800 items-end">
+        <div className="space-y-1 col-span-2">
+          <label className="text-xs text-gray-400">Seeds</label>
+          <input
+            type="text"
+            value={seedsText}
+            onChange={(e) => setSeedsText(e.target.value)}
+            placeholder="38763, 41046, 50705"
+            className="w-full bg-gray-700/50 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-emerald-400 font-mono focus:outline-none focus:border-emerald-500 transition-colors placeholder-gray-600"
+          />
+        </div>
+        {field('Sheet width (mm)', sheetWidth, setSheetWidth)}
+        {field('Sheet height (mm)', sheetHeight, setSheetHeight)}
+        {field('Margin (mm)', margin, setMargin)}
+        {field('Gap (mm)', gap, setGap)}
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-3">
+        {(Object.keys(ASSEMBLY_SHEETS) as AssemblySheet[]).map(sheet => (
+          <button
+            key={sheet}
+            onClick={() => toggleLayer(sheet)}
+            className={`px-3 py-1.5 rounded-md text-xs border transition-colors capitalize ${layers.includes(sheet) ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+            title={ASSEMBLY_SHEETS[sheet].description}
+          >
+            {sheet}
+          </button>
+        ))}
+        <button
+          onClick={() => setSpareWedges(!spareWedges)}
+          disabled={!config.showEntryWedge}
+          className={`px-3 py-1.5 rounded-md text-xs border transition-colors disabled:opacity-40 ${spareWedges ? 'bg-red-900/30 border-red-500/50 text-red-400' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+          title="Cut a loose spare wedge for each maze (needs the entry wedge enabled)"
+        >
+          Spare wedges
+        </button>
+
+        <div className="flex-1" />
+        {error && <span className="text-xs text-red-400">{error}</span>}
+        <button
+          onClick={handleExport}
+          disabled={isExporting || sheets.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-emerald-800 text-white rounded-lg font-medium transition-colors"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileCog className="w-4 h-4" />}
+          {isExporting ? `${exportProgress}%` : `Download ${sheets.length} DXF${sheets.length === 1 ? '' : 's'}`}
+        </button>
+        {isExporting && (
+          <button
+            onClick={() => workerRef.current?.cancel()}
+            className="p-2 bg-red-900/50 hover:bg-red-900 text-red-400 rounded-lg transition-colors"
+            title="Cancel Export"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        <div className="grid grid-cols-[repeat(auto-fill,minmax(360px,1fr))] gap-4">
+          {sheets.map((sheet, i) => (
+            <div key={i} className="bg-gray-900 border border-gray-800 rounded-xl p-3">
+              <div className="text-sm font-mono text-gray-400 mb-2">
+                Sheet {i + 1} • {sheet.parts.length} parts
+              </div>
+              <svg viewBox={`0 0 ${options.sheetWidth} ${options.sheetHeight}`} className="w-full bg-gray-800 rounded">
+                {sheet.parts.map((part, j) => {
+                  const maze = mazes[part.mazeIndex];
+                  return (
+                    <g key={j}>
+                      <circle cx={part.x} cy={part.y} r={part.radius} fill={PART_COLORS[part.kind]} stroke="#10b981" strokeWidth={1} />
+                      {part.kind === 'maze' && (
+                        <path
+                          d={maze.pathD}
+                          transform={`translate(${part.offset.x} ${part.offset.y})`}
+                          fill="none"
+                          stroke="#f3f4f6"
+                          strokeWidth={maze.config.corridorWidth}
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        />
+                      )}
+                      <text
+                        x={part.x}
+                        y={part.y}
+                        textAnchor="middle"
+                        dominantBaseline="middle"
+                        fontSize={Math.max(6, part.radius / 4)}
+                        fill="#10b981"
+                        fontFamily="monospace"
+                      >
+                        {part.kind === 'wedge' ? 'W' : `#${maze.config.seed} ${part.kind}`}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+          ))}
+        </div>
+        {mazes.length === 0 && (
+          <p className="text-sm text-gray-500 text-center mt-8">Enter one or more seeds to lay out.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SheetLayout;
@@ -0,0 +1,130 @@
+/**
+ * Board outlines.
+ *
+ * A board is a disc of `diameter`, or a regular polygon with its corners on
+ * that circle and one flat side at the top. Either may be annular: a hole of
+ * `innerDiameter` through the middle replaces the center hole as the goal, and
+ * the innermost ring of corridors opens into it. The maze is only ever turned
+ * by whole sides of a polygon (see generateMaze), so an outline depends on the
+ * config alone.
+ */
+
+import { MazeConfig, Point } from '../types';
+
+export interface Board {
+  sides: number;       // 0 for a disc
+  radius: number;      // mm, to a polygon's corners
+  innerRadius: number; // mm, 0 unless annular
+}
+
+export const MIN_BOARD_SIDES = 3;
+export const MAX_BOARD_SIDES = 12;
+
+/**
+ * The board a config describes.
+ */
+export const boardOf = (config: MazeConfig): Board => ({
+  sides: (config.boardShape ?? 'circle') === 'polygon'
+    ? Math.min(MAX_BOARD_SIDES, Math.max(MIN_BOARD_SIDES, Math.round(config.boardSides ?? 6)))
+    : 0,
+  radius: config.diameter / 2,
+  innerRadius: Math.max(0, (config.innerDiameter ?? 0) / 2),
+});
+
+// Angle of the middle of side k; side 0 faces up (-π/2 in SVG coordinates)
+const sideAngle = (sides: number, k: number) => -Math.PI / 2 + (k * 2 * Math.PI) / sides;
+
+/**
+ * Distance from the center to the middle of a polygon's sides.
+ */
+export const apothem = (board: Board): number =>
+  board.sides > 0 ? board.radius * Math.cos(Math.PI / board.sides) : board.radius;
+
+/**
+ * Corners of a polygon board, scaled to `radius` (default: the board's own), clockwise from the top left.
+ */
+export const boardCorners = (board: Board, radius: number = board.radius): Point[] =>
+  Array.from({ length: board.sides }, (_, k) => {
+    const angle = sideAngle(board.sides, k) - Math.PI / board.sides;
+    return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+  });
+
+/**
+ * How far p is inside the board's outer edge (negative outside).
+ */
+export const distanceToRim = (board: Board, p: Point): number => {
+  if (board.sides === 0) return board.radius - Math.hypot(p.x, p.y);
+  let furthest = -Infinity;
+  for (let k = 0; k < board.sides; k++) {
+    const angle = sideAngle(board.sides, k);
+    furthest = Math.max(furthest, p.x * Math.cos(angle) + p.y * Math.sin(angle));
+  }
+  return apothem(board) - furthest;
+};
+
+/**
+ * Distance from the center to the outer edge along `theta`.
+ */
+export const rimDistance = (board: Board, theta: number): number => {
+  if (board.sides === 0) return board.radius;
+  let facing = -Infinity;
+  for (let k = 0; k < board.sides; k++) facing = Math.max(facing, Math.cos(theta - sideAngle(board.sides, k)));
+  return apothem(board) / facing;
+};
+
+/**
+ * The point of the outer edge nearest to p.
+ */
+export const nearestRimPoint = (board: Board, p: Point): Point => {
+  const length = Math.hypot(p.x, p.y) || 1;
+  if (board.sides === 0) return { x: (p.x * board.radius) / length, y: (p.y * board.radius) / length };
+
+  // Foot of the perpendicular on the nearest side, kept between its corners
+  const a = apothem(board);
+  const halfSide = board.radius * Math.sin(Math.PI / board.sides);
+  let best: Point = p;
+  let bestDistance = Infinity;
+  for (let k = 0; k < board.sides; k++) {
+    const angle = sideAngle(board.sides, k);
+    const nx = Math.cos(angle);
+    const ny = Math.sin(angle);
+    const along = Math.max(-halfSide, Math.min(halfSide, -p.x * ny + p.y * nx));
+    const q = { x: a * nx - along * ny, y: a * ny + along * nx };
+    const d = Math.hypot(q.x - p.x, q.y - p.y);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = q;
+    }
+  }
+  return best;
+};
+
+/**
+ * Radius of the goal opening: the annular hole, or the center hole.
+ */
+export const goalHoleRadius = (config: MazeConfig): number => {
+  const { innerRadius } = boardOf(config);
+  return innerRadius > 0 ? innerRadius : config.holeRadius;
+};
+
+/**
+ * How far from the center passages into the goal end. On a full board they run
+ * to the center itself. On an annular board they stop half a corridor inside
+ * the hole's edge, so their sides cut cleanly through it.
+ */
+export const goalRadius = (config: MazeConfig): number => {
+  const { innerRadius } = boardOf(config);
+  return innerRadius > 0 ? Math.max(0, innerRadius - config.corridorWidth / 2) : 0;
+};
+
+/**
+ * SVG path data of the board's material: the outer edge, and the inner edge of
+ * an annular board (fill with the even-odd rule).
+ */
+export const boardPathD = (board: Board): string => {
+  const circle = (r: number) => `M ${r} 0 A ${r} ${r} 0 1 1 ${-r} 0 A ${r} ${r} 0 1 1 ${r} 0 Z`;
+  const outer = board.sides > 0
+    ? `${boardCorners(board).map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(3)} ${p.y.toFixed(3)}`).join(' ')} Z`
+    : circle(board.radius);
+  return board.innerRadius > 0 ? `${outer} ${circle(board.innerRadius)}` : outer;
+};
@@ -0,0 +1,118 @@
+/**
+ * Bolt / alignment-pin hole placement for stacked assemblies.
+ *
+ * Holes go through every sheet (base, maze, cover), so on the maze layer they
+ * must sit in solid wall material: clear of every corridor, both holes, the
+ * rim and the removable wedge. Targets are spread evenly around the board and
+ * each one slides along the rim, then inward, until it finds a clear spot.
+ */
+
+import { MazeData, Point } from '../types';
+import { boardOf, distanceToRim, goalHoleRadius, rimDistance } from './board';
+import { CLIPPER_SCALE, entryWedgeOptions, generateEntryWedgePaths, svgPathToClipperPaths } from './clipperUtils';
+
+// Minimum solid material left between a hole and any cut (mm), when the config's
+// minimum wall is thinner
+const BOLT_HOLE_MARGIN = 1;
+// Candidate spacing while searching (mm along the radius, radians around)
+const RADIAL_STEP = 0.5;
+const ANGULAR_STEP = Math.PI / 360;
+
+type Segment = [number, number, number, number];
+
+const toSegments = (pathD: string): Segment[] => {
+  const segments: Segment[] = [];
+  for (const path of svgPathToClipperPaths(pathD)) {
+    for (let i = 1; i < path.length; i++) {
+      segments.push([
+        path[i - 1].X / CLIPPER_SCALE, path[i - 1].Y / CLIPPER_SCALE,
+        path[i].X / CLIPPER_SCALE, path[i].Y / CLIPPER_SCALE,
+      ]);
+    }
+  }
+  return segments;
+};
+
+const distanceToSegment = (p: Point, [ax, ay, bx, by]: Segment): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - ax) * dx + (p.y - ay) * dy) / lengthSq)) : 0;
+  return Math.hypot(ax + t * dx - p.x, ay + t * dy - p.y);
+};
+
+const isClear = (p: Point, segments: Segment[], clearance: number): boolean =>
+  segments.every(segment => distanceToSegment(p, segment) >= clearance);
+
+// Even-odd ray cast against closed outline segments
+const isInside = (p: Point, segments: Segment[]): boolean => {
+  let inside = false;
+  for (const [ax, ay, bx, by] of segments) {
+    if ((ay > p.y) !== (by > p.y) && p.x < ax + ((p.y - ay) / (by - ay)) * (bx - ax)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Places config.boltHoleCount holes in the maze's wall material.
+ * Returns fewer holes if the maze has no room for all of them.
+ */
+export const findBoltHoles = (data: MazeData): Point[] => {
+  const { config, pathD, startPoint } = data;
+  const count = config.boltHoleCount ?? 0;
+  if (count <= 0) return [];
+
+  const radius = config.diameter / 2;
+  const holeRadius = config.boltHoleDiameter / 2;
+  const board = boardOf(config);
+  const goalHole = goalHoleRadius(config);
+  const entryMode = config.entryMode ?? 'hole';
+  // A side entry's slot is one more corridor
+  const corridors = toSegments(entryMode === 'side' ? `${pathD} ${data.entrancePathD}` : pathD);
+  const wedgeData = config.showEntryWedge
+    ? generateEntryWedgePaths(startPoint.x, startPoint.y, radius, config.corridorWidth, config.holeRadius, entryWedgeOptions(config))
+    : null;
+  // With a clearance the socket is the larger of the two outlines
+  const wedge = wedgeData ? toSegments(wedgeData.socketPath || wedgeData.wedgePath) : [];
+  // Keep the walls the manufacturability check asks for
+  const margin = Math.max(BOLT_HOLE_MARGIN, config.minWallThickness ?? 0);
+  // A wedge cut on a single line burns a whole kerf into the wall beside it
+  const wedgeMargin = wedgeData && !wedgeData.socketPath ? margin + (config.kerfWidth ?? 0) : margin;
+
+  const holes: Point[] = [];
+  const fits = (p: Point): boolean => {
+    if (Math.hypot(p.x, p.y) < goalHole + holeRadius + margin) return false;
+    // The search starts clear of the rim straight out; a polygon's slanting sides can be nearer
+    if (board.sides > 0 && distanceToRim(board, p) < holeRadius + margin) return false;
+    if (entryMode === 'hole' && Math.hypot(p.x - startPoint.x, p.y - startPoint.y) < config.holeRadius + holeRadius + margin) return false;
+    if (holes.some(h => Math.hypot(p.x - h.x, p.y - h.y) < 2 * holeRadius + margin)) return false;
+    if (wedge.length > 0 && (isInside(p, wedge) || !isClear(p, wedge, holeRadius + wedgeMargin))) return false;
+    return isClear(p, corridors, config.corridorWidth / 2 + holeRadius + margin);
+  };
+
+  // Start half a spacing away from the entry, which sits at -90°
+  const spacing = (2 * Math.PI) / count;
+
+  for (let k = 0; k < count; k++) {
+    const target = -Math.PI / 2 + spacing * (k + 0.5);
+    let found: Point | null = null;
+
+    // Nearest angle first, preferring the rim at each angle
+    for (let offset = 0; !found && offset < spacing / 2; offset += ANGULAR_STEP) {
+      for (const angle of offset === 0 ? [target] : [target + offset, target - offset]) {
+        const outerRadius = rimDistance(board, angle) - holeRadius - margin;
+        for (let r = outerRadius; !found && r > goalHole; r -= RADIAL_STEP) {
+          const p = { x: r * Math.cos(angle), y: r * Math.sin(angle) };
+          if (fits(p)) found = p;
+        }
+        if (found) break;
+      }
+    }
+
+    if (found) holes.push(found);
+  }
+
+  return holes;
+};
@@ -7,6 +7,8 @@
  */
 
 import ClipperLib from 'clipper-lib';
+import { EntryMode, MazeConfig, WedgeRetention } from '../types';
+import { Board, apothem, boardCorners, boardOf, rimDistance } from './board';
 
 // Clipper works with integers, so we scale up coordinates for precision
 const CLIPPER_SCALE = 1000;
@@ -19,6 +21,39 @@ interface Point {
 type Path = Point[];
 type Paths = Path[];
 
+/**
+ * How curves are cut into line segments. With a chord tolerance every curve gets
+ * just enough segments to stay within it of the true curve, whatever its radius.
+ * Without one, arcs get `segmentsPerArc` segments per half turn and circles a
+ * fixed count, as older exports did. Records the largest deviation it produced.
+ */
+export interface Tessellation {
+    chordTolerance: number; // mm; 0 = fixed segment counts
+    segmentsPerArc: number; // per half turn, when chordTolerance is 0
+    maxDeviation: number;   // mm; largest distance of a segment from its curve so far
+}
+
+export function createTessellation(chordTolerance: number, segmentsPerArc: number = 32): Tessellation {
+    return { chordTolerance, segmentsPerArc, maxDeviation: 0 };
+}
+
+/**
+ * Number of segments for an arc of `radius` sweeping `sweep` radians, and records
+ * the resulting deviation. `fixedSegments` is the count used without a chord tolerance.
+ */
+function segmentsFor(tessellation: Tessellation, radius: number, sweep: number, fixedSegments: number): number {
+    const { chordTolerance } = tessellation;
+    const segments = chordTolerance > 0
+        ? Math.max(1, Math.ceil(sweep / (2 * Math.acos(Math.max(-1, 1 - chordTolerance / radius)))))
+        : fixedSegments;
+    recordDeviation(tessellation, radius * (1 - Math.cos(sweep / segments / 2)));
+    return segments;
+}
+
+function recordDeviation(tessellation: Tessellation, deviation: number): void {
+    if (deviation > tessellation.maxDeviation) tessellation.maxDeviation = deviation;
+}
+
 /**
  * Approximates an SVG arc as a series of line segments.
  * SVG arc: A rx ry x-axis-rotation large-arc-flag sweep-flag x y
@@ -33,7 +68,7 @@ function arcToPoints(
     sweepFlag: number,
     endX: number,
     endY: number,
-    segmentsPerArc: number = 32
+    tessellation: Tessellation
 ): Point[] {
     // Handle degenerate cases
     if ((startX === endX && startY === endY) || rx === 0 || ry === 0) {
@@ -92,7 +127,13 @@ function arcToPoints(
 
     // Generate points along the arc
     const points: Point[] = [];
-    const numSegments = Math.max(1, Math.ceil(Math.abs(dtheta) / (Math.PI / segmentsPerArc)));
+    // An ellipse is flattest, so deviates most, where its radius of curvature is largest
+    const numSegments = segmentsFor(
+        tessellation,
+        Math.max(rx * rx / ry, ry * ry / rx),
+        Math.abs(dtheta),
+        Math.max(1, Math.ceil(Math.abs(dtheta) / (Math.PI / tessellation.segmentsPerArc)))
+    );
 
     for (let i = 1; i <= numSegments; i++) {
         const t = theta1 + (i / numSegments) * dtheta;
@@ -106,148 +147,276 @@ function arcToPoints(
     return points;
 }
 
+/**
+ * Approximates a cubic Bézier curve as a series of line segments.
+ * Without a chord tolerance the control polygon's total turn, which bounds the
+ * curve's, gets `segmentsPerArc` segments per half turn, like arcToPoints.
+ */
+function bezierToPoints(
+    x0: number, y0: number,
+    x1: number, y1: number,
+    x2: number, y2: number,
+    x3: number, y3: number,
+    tessellation: Tessellation
+): Point[] {
+    let turn = 0;
+    let prevAngle: number | null = null;
+    for (const [ax, ay, bx, by] of [[x0, y0, x1, y1], [x1, y1, x2, y2], [x2, y2, x3, y3]]) {
+        if (ax === bx && ay === by) continue;
+        const angle = Math.atan2(by - ay, bx - ax);
+        if (prevAngle !== null) {
+            let delta = angle - prevAngle;
+            while (delta > Math.PI) delta -= 2 * Math.PI;
+            while (delta < -Math.PI) delta += 2 * Math.PI;
+            turn += Math.abs(delta);
+        }
+        prevAngle = angle;
+    }
+
+    // Evenly spaced segments stay within 1/8 of the largest second derivative over n²
+    const secondDerivative = 6 * Math.max(
+        Math.hypot(x0 - 2 * x1 + x2, y0 - 2 * y1 + y2),
+        Math.hypot(x1 - 2 * x2 + x3, y1 - 2 * y2 + y3)
+    );
+    const numSegments = tessellation.chordTolerance > 0
+        ? Math.max(1, Math.ceil(Math.sqrt(secondDerivative / (8 * tessellation.chordTolerance))))
+        : Math.max(1, Math.ceil(turn / (Math.PI / tessellation.segmentsPerArc)));
+    recordDeviation(tessellation, secondDerivative / (8 * numSegments * numSegments));
+
+    const points: Point[] = [];
+    for (let i = 1; i <= numSegments; i++) {
+        const t = i / numSegments;
+        const mt = 1 - t;
+        const a = mt * mt * mt;
+        const b = 3 * mt * mt * t;
+        const c = 3 * mt * t * t;
+        const d = t * t * t;
+        const x = a * x0 + b * x1 + c * x2 + d * x3;
+        const y = a * y0 + b * y1 + c * y2 + d * y3;
+        points.push({ X: Math.round(x * CLIPPER_SCALE), Y: Math.round(y * CLIPPER_SCALE) });
+    }
+
+    return points;
+}
+
+// Parameters per command; a command's parameter set may repeat
+const PATH_COMMAND_ARITY: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0 };
+
+const PATH_NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+interface PathCommand {
+    command: string; // letter as written, lower case = relative
+    args: number[];  // exactly one parameter set
+}
+
+/**
+ * Splits SVG path data into commands with one parameter set each, following the
+ * SVG path grammar: numbers may run together ("10-5", "1.5.5", "2e-3"), arc flags
+ * need no separator ("a5 5 0 011 1"), and repeated parameter sets repeat the
+ * command (extra moveto pairs are linetos). Like a browser, parsing stops at the
+ * first error and keeps the commands before it.
+ */
+function parsePathCommands(pathD: string): PathCommand[] {
+    const commands: PathCommand[] = [];
+    const length = pathD.length;
+    let pos = 0;
+
+    const isSpace = (c: string) => c === ' ' || c === '\t' || c === '\n' || c === '\r' || c === '\f';
+    const skipSpaces = () => {
+        while (pos < length && isSpace(pathD[pos])) pos++;
+    };
+    const skipSeparator = () => {
+        skipSpaces();
+        if (pathD[pos] === ',') {
+            pos++;
+            skipSpaces();
+        }
+    };
+    const readNumber = (): number | null => {
+        PATH_NUMBER.lastIndex = pos;
+        const match = PATH_NUMBER.exec(pathD);
+        if (!match) return null;
+        pos += match[0].length;
+        return Number(match[0]);
+    };
+    const readFlag = (): number | null => {
+        const c = pathD[pos];
+        if (c !== '0' && c !== '1') return null;
+        pos++;
+        return c === '1' ? 1 : 0;
+    };
+    const startsNumber = (c: string) => (c >= '0' && c <= '9') || c === '.' || c === '-' || c === '+';
+
+    skipSpaces();
+    while (pos < length) {
+        const letter = pathD[pos];
+        const upper = letter.toUpperCase();
+        const arity = PATH_COMMAND_ARITY[upper];
+        // Path data must start with a moveto
+        if (arity === undefined || (commands.length === 0 && upper !== 'M')) break;
+        pos++;
+        skipSpaces();
+
+        if (arity === 0) {
+            commands.push({ command: letter, args: [] });
+            continue;
+        }
+
+        let command = letter;
+        do {
+            const args: number[] = [];
+            for (let i = 0; i < arity; i++) {
+                if (i > 0) skipSeparator();
+                const value = upper === 'A' && (i === 3 || i === 4) ? readFlag() : readNumber();
+                if (value === null) return commands;
+                args.push(value);
+            }
+            commands.push({ command, args });
+            if (upper === 'M') command = letter === 'M' ? 'L' : 'l';
+            skipSeparator();
+        } while (pos < length && startsNumber(pathD[pos]));
+    }
+
+    return commands;
+}
+
 /**
  * Parses SVG path data and converts it to Clipper-compatible paths (arrays of points).
- * Each sub-path (starting with M) becomes a separate path.
+ * Each sub-path (starting with M, or drawing on after a Z) becomes a separate path.
+ * Every path command is supported; arcs and Bézier curves are flattened with
+ * `segmentsPerArc` segments per half turn, or to a Tessellation's chord tolerance.
  */
-export function svgPathToClipperPaths(pathD: string): Paths {
+export function svgPathToClipperPaths(pathD: string, segmentsPerArc: number | Tessellation = 32): Paths {
+    const tessellation = typeof segmentsPerArc === 'number' ? createTessellation(0, segmentsPerArc) : segmentsPerArc;
     const paths: Paths = [];
     let currentPath: Path = [];
     let currentX = 0;
     let currentY = 0;
     let startX = 0;
     let startY = 0;
+    let closed = false;
+    // Last control point of the previous C/S or Q/T, for the smooth variants
+    let prevCommand = '';
+    let controlX = 0;
+    let controlY = 0;
+
+    const lineTo = (x: number, y: number) => {
+        currentX = x;
+        currentY = y;
+        currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
+    };
+    const cubicTo = (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => {
+        currentPath.push(...bezierToPoints(currentX, currentY, x1, y1, x2, y2, x, y, tessellation));
+        controlX = x2;
+        controlY = y2;
+        currentX = x;
+        currentY = y;
+    };
+    // Quadratics are drawn as the equivalent cubic
+    const quadraticTo = (qx: number, qy: number, x: number, y: number) => {
+        currentPath.push(...bezierToPoints(
+            currentX, currentY,
+            currentX + (2 / 3) * (qx - currentX), currentY + (2 / 3) * (qy - currentY),
+            x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y),
+            x, y,
+            tessellation
+        ));
+        controlX = qx;
+        controlY = qy;
+        currentX = x;
+        currentY = y;
+    };
 
-    // Regex to match SVG path commands
-    const commandRegex = /([MmLlHhVvAaZz])([^MmLlHhVvAaZz]*)/g;
-    let match;
-
-    while ((match = commandRegex.exec(pathD)) !== null) {
-        const cmd = match[1];
-        const argsStr = match[2].trim();
-        const args = argsStr ? argsStr.split(/[\s,]+/).map(Number) : [];
+    for (const { command, args } of parsePathCommands(pathD)) {
+        const type = command.toUpperCase();
+        const relative = command !== type;
+        const x = (value: number) => (relative ? currentX + value : value);
+        const y = (value: number) => (relative ? currentY + value : value);
 
-        switch (cmd) {
-            case 'M': // Absolute moveto
-                if (currentPath.length > 0) {
-                    paths.push(currentPath);
-                }
-                currentPath = [];
-                currentX = args[0];
-                currentY = args[1];
-                startX = currentX;
-                startY = currentY;
-                currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
-                // Implicit lineto for additional coordinate pairs
-                for (let i = 2; i < args.length; i += 2) {
-                    currentX = args[i];
-                    currentY = args[i + 1];
-                    currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
-                }
-                break;
+        // Drawing on after a closepath starts a new sub-path at the same point
+        if (closed && type !== 'M' && type !== 'Z') {
+            paths.push(currentPath);
+            currentPath = [{ X: Math.round(startX * CLIPPER_SCALE), Y: Math.round(startY * CLIPPER_SCALE) }];
+        }
+        closed = false;
 
-            case 'm': // Relative moveto
+        switch (type) {
+            case 'M': // Moveto
                 if (currentPath.length > 0) {
                     paths.push(currentPath);
                 }
                 currentPath = [];
-                currentX += args[0];
-                currentY += args[1];
+                lineTo(x(args[0]), y(args[1]));
                 startX = currentX;
                 startY = currentY;
-                currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
-                for (let i = 2; i < args.length; i += 2) {
-                    currentX += args[i];
-                    currentY += args[i + 1];
-                    currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
-                }
                 break;
 
-            case 'L': // Absolute lineto
-                for (let i = 0; i < args.length; i += 2) {
-                    currentX = args[i];
-                    currentY = args[i + 1];
-                    currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
-                }
+            case 'L': // Lineto
+                lineTo(x(args[0]), y(args[1]));
                 break;
 
-            case 'l': // Relative lineto
-                for (let i = 0; i < args.length; i += 2) {
-                    currentX += args[i];
-                    currentY += args[i + 1];
-                    currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
-                }
+            case 'H': // Horizontal lineto
+                lineTo(x(args[0]), currentY);
                 break;
 
-            case 'H': // Absolute horizontal lineto
-                for (const x of args) {
-                    currentX = x;
-                    currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
-                }
+            case 'V': // Vertical lineto
+                lineTo(currentX, y(args[0]));
                 break;
 
-            case 'h': // Relative horizontal lineto
-                for (const dx of args) {
-                    currentX += dx;
-                    currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
-                }
+            case 'C': // Cubic Bézier
+                cubicTo(x(args[0]), y(args[1]), x(args[2]), y(args[3]), x(args[4]), y(args[5]));
                 break;
 
-            case 'V': // Absolute vertical lineto
-                for (const y of args) {
-                    currentY = y;
-                    currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
-                }
+            case 'S': { // Smooth cubic: the first control point mirrors the previous curve's last
+                const smooth = prevCommand === 'C' || prevCommand === 'S';
+                cubicTo(
+                    smooth ? 2 * currentX - controlX : currentX, smooth ? 2 * currentY - controlY : currentY,
+                    x(args[0]), y(args[1]), x(args[2]), y(args[3])
+                );
                 break;
+            }
 
-            case 'v': // Relative vertical lineto
-                for (const dy of args) {
-                    currentY += dy;
-                    currentPath.push({ X: Math.round(currentX * CLIPPER_SCALE), Y: Math.round(currentY * CLIPPER_SCALE) });
-                }
+            case 'Q': // Quadratic Bézier
+                quadraticTo(x(args[0]), y(args[1]), x(args[2]), y(args[3]));
                 break;
 
-            case 'A': // Absolute arc
-                for (let i = 0; i < args.length; i += 7) {
-                    const arcPoints = arcToPoints(
-                        currentX, currentY,
-                        args[i], args[i + 1],      // rx, ry
-                        args[i + 2],                // x-axis-rotation
-                        args[i + 3], args[i + 4],  // large-arc, sweep
-                        args[i + 5], args[i + 6]   // end x, y
-                    );
-                    currentPath.push(...arcPoints);
-                    currentX = args[i + 5];
-                    currentY = args[i + 6];
-                }
+            case 'T': { // Smooth quadratic
+                const smooth = prevCommand === 'Q' || prevCommand === 'T';
+                quadraticTo(
+                    smooth ? 2 * currentX - controlX : currentX, smooth ? 2 * currentY - controlY : currentY,
+                    x(args[0]), y(args[1])
+                );
                 break;
-
-            case 'a': // Relative arc
-                for (let i = 0; i < args.length; i += 7) {
-                    const endX = currentX + args[i + 5];
-                    const endY = currentY + args[i + 6];
-                    const arcPoints = arcToPoints(
-                        currentX, currentY,
-                        args[i], args[i + 1],
-                        args[i + 2],
-                        args[i + 3], args[i + 4],
-                        endX, endY
-                    );
-                    currentPath.push(...arcPoints);
-                    currentX = endX;
-                    currentY = endY;
-                }
+            }
+
+            case 'A': { // Elliptical arc
+                const endX = x(args[5]);
+                const endY = y(args[6]);
+                const arcPoints = arcToPoints(
+                    currentX, currentY,
+                    Math.abs(args[0]), Math.abs(args[1]), // rx, ry
+                    args[2],                              // x-axis-rotation
+                    args[3], args[4],                     // large-arc, sweep
+                    endX, endY,
+                    tessellation
+                );
+                currentPath.push(...arcPoints);
+                currentX = endX;
+                currentY = endY;
                 break;
+            }
 
-            case 'Z':
-            case 'z': // Closepath
+            case 'Z': // Closepath
                 if (currentPath.length > 0) {
                     currentPath.push({ X: Math.round(startX * CLIPPER_SCALE), Y: Math.round(startY * CLIPPER_SCALE) });
                 }
                 currentX = startX;
                 currentY = startY;
+                closed = true;
                 break;
         }
+
+        prevCommand = type;
     }
 
     if (currentPath.length > 0) {
@@ -259,10 +428,20 @@ export function svgPathToClipperPaths(pathD: string): Paths {
 
 /**
  * Offsets open paths (polylines) by a given distance, creating the corridor walls.
- * Returns closed polygons representing the outlined shape.
+ * Returns closed polygons representing the outlined shape. Round joins and ends
+ * follow the tessellation's chord tolerance when it has one.
  */
-export function offsetPaths(paths: Paths, distance: number, joinType: 'round' | 'square' | 'miter' = 'round'): Paths {
+export function offsetPaths(
+    paths: Paths,
+    distance: number,
+    joinType: 'round' | 'square' | 'miter' = 'round',
+    tessellation?: Tessellation
+): Paths {
     const co = new ClipperLib.ClipperOffset();
+    if (tessellation) {
+        if (tessellation.chordTolerance > 0) co.ArcTolerance = tessellation.chordTolerance * CLIPPER_SCALE;
+        recordDeviation(tessellation, co.ArcTolerance / CLIPPER_SCALE);
+    }
 
     const jt = joinType === 'round' ? ClipperLib.JoinType.jtRound :
                joinType === 'square' ? ClipperLib.JoinType.jtSquare :
@@ -282,9 +461,39 @@ export function offsetPaths(paths: Paths, distance: number, joinType: 'round' |
 }
 
 /**
- * Creates a circle as a Clipper polygon.
+ * Grows (positive distance) or shrinks (negative) the closed shapes in SVG path data.
+ * Corners stay sharp. Used to kerf-compensate parts such as the entry wedge. Curves
+ * are flattened by `tessellation`, or at 32 segments per half turn without one.
+ */
+export function offsetClosedPath(pathD: string, distance: number, tessellation?: Tessellation): string {
+    if (!pathD || distance === 0) return pathD;
+
+    const co = new ClipperLib.ClipperOffset();
+    co.AddPaths(svgPathToClipperPaths(pathD, tessellation ?? 32), ClipperLib.JoinType.jtMiter, ClipperLib.EndType.etClosedPolygon);
+
+    const result = new ClipperLib.Paths();
+    co.Execute(result, distance * CLIPPER_SCALE);
+
+    return clipperPathsToSvgPath(result);
+}
+
+/**
+ * Creates a polygon board's outer edge as a Clipper polygon, moved out by `grow` on every side.
  */
-export function createCircle(cx: number, cy: number, radius: number, segments: number = 64): Path {
+export function createBoardPolygon(board: Board, grow: number = 0): Path {
+    const cornerRadius = (apothem(board) + grow) / Math.cos(Math.PI / board.sides);
+    return boardCorners(board, cornerRadius).map(p => ({
+        X: Math.round(p.x * CLIPPER_SCALE),
+        Y: Math.round(p.y * CLIPPER_SCALE)
+    }));
+}
+
+/**
+ * Creates a circle as a Clipper polygon. With a tessellation, `segments` only
+ * applies when it has no chord tolerance.
+ */
+export function createCircle(cx: number, cy: number, radius: number, segments: number = 64, tessellation?: Tessellation): Path {
+    if (tessellation) segments = Math.max(8, segmentsFor(tessellation, radius, 2 * Math.PI, segments));
     const points: Path = [];
     for (let i = 0; i < segments; i++) {
         const angle = (i / segments) * 2 * Math.PI;
@@ -317,6 +526,25 @@ export function unionPolygons(polygons: Paths): Paths {
     return result;
 }
 
+/**
+ * Keeps the parts of the subject polygons that lie inside the clip polygons.
+ */
+export function intersectPolygons(subject: Paths, clip: Paths): Paths {
+    const clipper = new ClipperLib.Clipper();
+    clipper.AddPaths(subject, ClipperLib.PolyType.ptSubject, true);
+    clipper.AddPaths(clip, ClipperLib.PolyType.ptClip, true);
+
+    const result = new ClipperLib.Paths();
+    clipper.Execute(
+        ClipperLib.ClipType.ctIntersection,
+        result,
+        ClipperLib.PolyFillType.pftNonZero,
+        ClipperLib.PolyFillType.pftNonZero
+    );
+
+    return result;
+}
+
 /**
  * Converts Clipper paths back to SVG path data string.
  */
@@ -334,6 +562,134 @@ export function clipperPathsToSvgPath(paths: Paths): string {
     return d.trim();
 }
 
+// Arc fitting: input arcs are flattened this finely so the offset outline stays
+// within a few microns of the true circles, and arcs need at least this many
+// segments before they replace line segments.
+const ARC_FIT_SEGMENTS_PER_PI = 128;
+const MIN_ARC_SEGMENTS = 3;
+const MAX_ARC_RADIUS = 10000; // mm, flatter than this is a straight line
+
+interface FittedArc {
+    r: number;
+    sweep: number; // radians, positive = increasing angle (SVG sweep-flag 1)
+}
+
+/**
+ * Fits a circular arc through points[i..j] (indices wrap around the closed ring).
+ * Returns null unless every point and every chord midpoint lies within `tolerance` of the
+ * circle and the points advance steadily around it in one direction.
+ */
+function fitArc(points: { x: number; y: number }[], i: number, j: number, tolerance: number): FittedArc | null {
+    const n = points.length;
+    const at = (k: number) => points[k % n];
+    const a = at(i);
+    const b = at((i + j) >> 1);
+    const c = at(j);
+
+    // Circumcircle of a, b, c
+    const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+    if (Math.abs(d) < 1e-9) return null;
+    const aSq = a.x * a.x + a.y * a.y;
+    const bSq = b.x * b.x + b.y * b.y;
+    const cSq = c.x * c.x + c.y * c.y;
+    const cx = (aSq * (b.y - c.y) + bSq * (c.y - a.y) + cSq * (a.y - b.y)) / d;
+    const cy = (aSq * (c.x - b.x) + bSq * (a.x - c.x) + cSq * (b.x - a.x)) / d;
+    const r = Math.hypot(a.x - cx, a.y - cy);
+    if (r > MAX_ARC_RADIUS) return null;
+
+    let sweep = 0;
+    let prevAngle = Math.atan2(a.y - cy, a.x - cx);
+    for (let k = i + 1; k <= j; k++) {
+        const p = at(k);
+        const q = at(k - 1);
+        if (Math.abs(Math.hypot(p.x - cx, p.y - cy) - r) > tolerance) return null;
+        if (Math.abs(Math.hypot((p.x + q.x) / 2 - cx, (p.y + q.y) / 2 - cy) - r) > tolerance) return null;
+
+        const angle = Math.atan2(p.y - cy, p.x - cx);
+        let step = angle - prevAngle;
+        if (step > Math.PI) step -= 2 * Math.PI;
+        if (step < -Math.PI) step += 2 * Math.PI;
+        if (Math.abs(step) > Math.PI / 2 || (sweep !== 0 && Math.sign(step) !== Math.sign(sweep))) return null;
+        sweep += step;
+        prevAngle = angle;
+    }
+
+    // A full circle can't be written as one SVG arc
+    if (Math.abs(sweep) > 1.9 * Math.PI) return null;
+    return { r, sweep };
+}
+
+/**
+ * Converts Clipper paths to SVG path data, replacing runs of points that lie on a
+ * circle (within `tolerance` mm) with A commands. Everything else stays L segments.
+ */
+export function clipperPathsToArcSvgPath(paths: Paths, tolerance: number): string {
+    const fmt = (v: number) => v.toFixed(3);
+    let d = '';
+
+    for (const path of paths) {
+        if (path.length < 3) continue;
+        const points = path.map(p => ({ x: p.X / CLIPPER_SCALE, y: p.Y / CLIPPER_SCALE }));
+        const n = points.length;
+
+        // Start at the sharpest corner so no arc is split by the seam
+        let start = 0;
+        let sharpest = -1;
+        for (let k = 0; k < n; k++) {
+            const prev = points[(k + n - 1) % n];
+            const curr = points[k];
+            const next = points[(k + 1) % n];
+            const turn = Math.abs(Math.atan2(
+                (curr.x - prev.x) * (next.y - curr.y) - (curr.y - prev.y) * (next.x - curr.x),
+                (curr.x - prev.x) * (next.x - curr.x) + (curr.y - prev.y) * (next.y - curr.y)
+            ));
+            if (turn > sharpest) {
+                sharpest = turn;
+                start = k;
+            }
+        }
+        const ring = [...points.slice(start), ...points.slice(0, start)];
+
+        d += `M ${fmt(ring[0].x)} ${fmt(ring[0].y)} `;
+        let i = 0;
+        while (i < n) {
+            let end = -1;
+            let arc: FittedArc | null = null;
+            for (let j = i + MIN_ARC_SEGMENTS; j <= n; j++) {
+                const fitted = fitArc(ring, i, j, tolerance);
+                if (!fitted) break;
+                end = j;
+                arc = fitted;
+            }
+
+            if (arc) {
+                const p = ring[end % n];
+                const largeArc = Math.abs(arc.sweep) > Math.PI ? 1 : 0;
+                const sweepFlag = arc.sweep > 0 ? 1 : 0;
+                d += `A ${fmt(arc.r)} ${fmt(arc.r)} 0 ${largeArc} ${sweepFlag} ${fmt(p.x)} ${fmt(p.y)} `;
+                i = end;
+            } else {
+                if (i + 1 < n) {
+                    d += `L ${fmt(ring[i + 1].x)} ${fmt(ring[i + 1].y)} `;
+                }
+                i++;
+            }
+        }
+        d += 'Z ';
+    }
+    return d.trim();
+}
+
+/**
+ * A full circle as SVG path data made of two half-circle arcs.
+ */
+export function circleToSvgPath(cx: number, cy: number, radius: number): string {
+    const fmt = (v: number) => v.toFixed(3);
+    return `M ${fmt(cx + radius)} ${fmt(cy)} ` +
+        `A ${fmt(radius)} ${fmt(radius)} 0 1 1 ${fmt(cx - radius)} ${fmt(cy)} ` +
+        `A ${fmt(radius)} ${fmt(radius)} 0 1 1 ${fmt(cx + radius)} ${fmt(cy)} Z`;
+}
+
 /**
  * Main function: Takes SVG path data and corridor width, returns outlined SVG path.
  * This handles the full pipeline: parse -> offset -> union -> convert back.
@@ -357,8 +713,61 @@ export function createOutlinedPaths(
     return clipperPathsToSvgPath(unioned);
 }
 
+/**
+ * Outlined SVG path data for each part of the maze layer.
+ */
+export interface MazeOutlines {
+    corridors: string;
+    boundary: string;
+    innerBoundary: string; // an annular board's hole, empty otherwise
+    centerHole: string; // empty on an annular board, whose hole is the goal
+    entryHole: string;
+    boltHoles: string; // empty when the assembly has no bolt holes
+    deviationBound: number; // mm; no cut line strays further from its true curve. Summed from the tolerances, not measured
+}
+
+/**
+ * Optional settings for createMazeOutline.
+ */
+export interface MazeOutlineOptions {
+    // Receives a percentage (0-80) as each stage starts
+    onProgress?: (progress: number, stage: string) => void;
+    // mm; with a positive value the outlines keep true arcs (SVG A commands)
+    // instead of line segments. 0 gives the original all-segment output.
+    arcTolerance?: number;
+    // mm; furthest a line segment may stray from the curve it stands in for.
+    // 0 gives the original fixed segment counts.
+    chordTolerance?: number;
+    // mm; width of material the laser burns away. Cutouts shrink and the
+    // outer boundary grows by half of it, so parts come out at design size.
+    kerfWidth?: number;
+    // Bolt / alignment-pin holes to cut, see lib/boltHoles.ts
+    boltHoles?: { x: number; y: number }[];
+    boltHoleRadius?: number;
+    // Board outline (lib/board.ts): a regular polygon with its corners at outerRadius
+    // instead of a circle, and an annular board's hole
+    boardSides?: number;
+    innerRadius?: number;
+}
+
+/**
+ * The tessellation createMazeOutline cuts the corridors with for these tolerances.
+ */
+export function cutTessellation(arcTolerance: number, chordTolerance: number): Tessellation {
+    const fitArcs = arcTolerance > 0;
+    // When fitting arcs the segments are only an intermediate step, so keep them
+    // well inside the fit tolerance
+    return createTessellation(
+        fitArcs && chordTolerance > 0 ? Math.min(chordTolerance, arcTolerance / 2) : chordTolerance,
+        fitArcs ? ARC_FIT_SEGMENTS_PER_PI : 32
+    );
+}
+
 /**
  * Creates a complete maze outline including corridors, boundary, center hole, and entry hole.
+ * An entrance path may run out past the boundary (a side-entry slot); the corridors are
+ * then trimmed to the boundary so the slot opens flush with the rim. An annular board
+ * gets its hole instead of the center hole.
  */
 export function createMazeOutline(
     mazePathD: string,
@@ -367,42 +776,121 @@ export function createMazeOutline(
     outerRadius: number,
     holeRadius: number,
     joinType: 'round' | 'square' | 'miter' = 'round',
-    entryHolePosition?: { x: number; y: number }
-): { corridors: string; boundary: string; centerHole: string; entryHole: string } {
+    entryHolePosition?: { x: number; y: number },
+    options: MazeOutlineOptions = {}
+): MazeOutlines {
+    const {
+        onProgress, arcTolerance = 0, chordTolerance = 0, kerfWidth = 0, boltHoles = [], boltHoleRadius = 0,
+        boardSides = 0, innerRadius = 0
+    } = options;
+    const fitArcs = arcTolerance > 0;
+    const tessellation = cutTessellation(arcTolerance, chordTolerance);
+
+    // The beam is centered on the cut line: cutouts come out half a kerf larger
+    // and the outer edge half a kerf smaller, so move each line the other way
+    const kerf = kerfWidth / 2;
+    if (kerf > 0 && (
+        kerf >= corridorWidth / 2 || kerf >= holeRadius ||
+        (boltHoles.length > 0 && kerf >= boltHoleRadius) || (innerRadius > 0 && kerf >= innerRadius)
+    )) {
+        throw new Error(`Kerf width ${kerfWidth}mm is too large for the corridor and hole sizes`);
+    }
+    const cutoutRadius = holeRadius - kerf;
+    const boundaryRadius = outerRadius + kerf;
+
     // Parse and offset maze paths
-    const mazePaths = svgPathToClipperPaths(mazePathD);
-    const entrancePaths = entrancePathD ? svgPathToClipperPaths(entrancePathD) : [];
+    onProgress?.(5, 'Parsing paths');
+    const mazePaths = svgPathToClipperPaths(mazePathD, tessellation);
+    const entrancePaths = entrancePathD ? svgPathToClipperPaths(entrancePathD, tessellation) : [];
     const allPaths = [...mazePaths, ...entrancePaths];
 
-    const offsetDistance = corridorWidth / 2;
-    const offsetted = offsetPaths(allPaths, offsetDistance, joinType);
+    onProgress?.(15, 'Offsetting corridors');
+    const offsetDistance = corridorWidth / 2 - kerf;
+    const offsetted = offsetPaths(allPaths, offsetDistance, joinType, tessellation);
 
     // Union all corridor polygons
-    const corridorPolygons = unionPolygons(offsetted);
+    onProgress?.(40, 'Merging corridors');
+    const merged = unionPolygons(offsetted);
+
+    // Create the boundary: a circle, or the board's polygon with its sides moved out by the kerf
+    const board: Board = { sides: boardSides, radius: outerRadius, innerRadius };
+    const boundaryCircle = boardSides > 0 ? createBoardPolygon(board, kerf) : createCircle(0, 0, boundaryRadius, 128, tessellation);
+    const corridorPolygons = entrancePaths.length > 0 ? intersectPolygons(merged, [boundaryCircle]) : merged;
+    const annular = innerRadius > 0;
+    const innerCutRadius = innerRadius - kerf;
+
+    if (fitArcs) {
+        onProgress?.(60, 'Fitting arcs');
+        return {
+            corridors: clipperPathsToArcSvgPath(corridorPolygons, arcTolerance),
+            boundary: boardSides > 0 ? clipperPathsToSvgPath([boundaryCircle]) : circleToSvgPath(0, 0, boundaryRadius),
+            innerBoundary: annular ? circleToSvgPath(0, 0, innerCutRadius) : '',
+            centerHole: annular ? '' : circleToSvgPath(0, 0, cutoutRadius),
+            entryHole: entryHolePosition ? circleToSvgPath(entryHolePosition.x, entryHolePosition.y, cutoutRadius) : '',
+            boltHoles: boltHoles.map(h => circleToSvgPath(h.x, h.y, boltHoleRadius - kerf)).join(' '),
+            // Circles are exact here; the fitted arcs add their tolerance on top of the segments'
+            deviationBound: tessellation.maxDeviation + arcTolerance
+        };
+    }
 
-    // Create boundary circle
-    const boundaryCircle = createCircle(0, 0, outerRadius, 128);
+    onProgress?.(80, 'Adding boundary and holes');
 
     // Create center hole
-    const centerHole = createCircle(0, 0, holeRadius, 64);
+    const centerHole = createCircle(0, 0, cutoutRadius, 64, tessellation);
 
     // Create entry hole at the specified position
     const entryHole = entryHolePosition
-        ? createCircle(entryHolePosition.x, entryHolePosition.y, holeRadius, 64)
+        ? createCircle(entryHolePosition.x, entryHolePosition.y, cutoutRadius, 64, tessellation)
         : [];
 
     return {
         corridors: clipperPathsToSvgPath(corridorPolygons),
         boundary: clipperPathsToSvgPath([boundaryCircle]),
-        centerHole: clipperPathsToSvgPath([centerHole]),
-        entryHole: entryHole.length > 0 ? clipperPathsToSvgPath([entryHole]) : ''
+        innerBoundary: annular ? clipperPathsToSvgPath([createCircle(0, 0, innerCutRadius, 128, tessellation)]) : '',
+        centerHole: annular ? '' : clipperPathsToSvgPath([centerHole]),
+        entryHole: entryHole.length > 0 ? clipperPathsToSvgPath([entryHole]) : '',
+        boltHoles: clipperPathsToSvgPath(boltHoles.map(h => createCircle(h.x, h.y, boltHoleRadius - kerf, 32, tessellation))),
+        deviationBound: tessellation.maxDeviation
     };
 }
 
+/**
+ * How the entry wedge (or side-entry plug) is shaped and held.
+ */
+export interface EntryWedgeOptions {
+    entryMode?: EntryMode;
+    retention?: WedgeRetention;
+    earLength?: number;   // mm; how far ears or dovetail keys stick out from the wedge's sides
+    earPosition?: number; // % of the way from the entry to the rim where the ears start (or the key / screw sits)
+    clearance?: number;   // mm the wedge is shrunk on every side for a sliding fit
+    tessellation?: Tessellation; // for the rim arcs, screw hole and offsets; fixed segment counts without one
+    boardSides?: number;  // a polygon board's sides; the shape is then cut flush with them
+}
+
+// Outline of a wedge or plug, and where its screw goes if it has one
+interface EntryWedgeShape {
+    wedgePath: string;
+    screwHoleCenter: { x: number; y: number } | null;
+}
+
+// Wedge defaults, chosen to reproduce the original rubber-band ears
+const DEFAULT_EAR_LENGTH = 7;
+const DEFAULT_EAR_POSITION = 65;
+// Diameter of the retention screw's hole (mm), and how far each side of a dovetail key flares
+const WEDGE_SCREW_DIAMETER = 3;
+const DOVETAIL_FLARE = Math.PI / 12;
+
+// How far out a shape's rim edge is drawn. On a polygon board it overshoots every
+// corner, and generateEntryWedgePaths trims it back to the board's sides.
+function rimReach(outerRadius: number, boardSides: number = 0): number {
+    return boardSides > 0 ? outerRadius / Math.cos(Math.PI / boardSides) : outerRadius;
+}
+
 /**
  * Creates a pie-slice wedge shape for the entry cutout.
  * The wedge extends from an apex point to outerRadius, centered at entryAngle.
  * The apex (inner point) is positioned so the opening width = corridorWidth for maintenance access.
+ * Its sides carry the retention features (ears or dovetail keys), or it gets a screw hole.
  * Uses polyline segments (M/L/Z only) for DXF compatibility.
  */
 export function createEntryWedge(
@@ -410,9 +898,13 @@ export function createEntryWedge(
     innerRadius: number,
     corridorWidth: number,
     entryAngle: number, // radians, typically -π/2 for top
-    holeRadius: number, // radius of entry hole, for screw positioning
+    options: EntryWedgeOptions = {},
     arcSegments: number = 32
-): { wedgePath: string; screwHoleCenter: { x: number; y: number } } {
+): EntryWedgeShape {
+    const { retention = 'ears', earLength = DEFAULT_EAR_LENGTH, earPosition = DEFAULT_EAR_POSITION } = options;
+    const tessellation = options.tessellation ?? createTessellation(0, arcSegments);
+    const reach = rimReach(outerRadius, options.boardSides);
+
     // The wedge meets the corridor with a rounded end (semicircle) matching corridor radius
     // The center of this semicircle is at innerRadius (entry point)
     // The semicircle has radius = corridorWidth/2
@@ -428,11 +920,12 @@ export function createEntryWedge(
     // Build the wedge path with ears that extend past outer boundary
     // The ears prevent the wedge from falling through - rubber band holds it in place
 
-    const earExtension = 7; // mm - how far ears extend past outer boundary
+    const earExtension = earLength; // mm - how far ears extend past outer boundary
 
-    // Ear starts halfway between the corridor (innerRadius) and outer boundary, plus 15%
+    // Ear starts earPosition% of the way from the corridor (innerRadius) to the outer
+    // boundary, measured from halfway so the default 65% matches the original placement
     const halfwayRadius = (innerRadius + outerRadius) / 2;
-    const earStartRadius = halfwayRadius + (outerRadius - innerRadius) * 0.15;
+    const earStartRadius = halfwayRadius + (outerRadius - innerRadius) * ((earPosition - 50) / 100);
 
     const pathParts: string[] = [];
 
@@ -442,6 +935,10 @@ export function createEntryWedge(
     const slotX2 = innerRadius * Math.cos(angle2);
     const slotY2 = innerRadius * Math.sin(angle2);
 
+    if (retention !== 'ears') {
+        return createPlainWedge(outerRadius, reach, innerRadius, angle1, angle2, earStartRadius, retention, earLength, tessellation);
+    }
+
     // Start at slot end 1
     pathParts.push(`M ${slotX1.toFixed(3)} ${slotY1.toFixed(3)}`);
 
@@ -458,29 +955,34 @@ export function createEntryWedge(
     pathParts.push(`L ${ear1OuterX.toFixed(3)} ${ear1OuterY.toFixed(3)}`);
 
     // Along ear outer edge (parallel to outer boundary arc, but extended)
-    const ear1EndX = (outerRadius * Math.cos(angle1)) + earExtension * Math.cos(perpAngle1);
-    const ear1EndY = (outerRadius * Math.sin(angle1)) + earExtension * Math.sin(perpAngle1);
+    const ear1EndX = (reach * Math.cos(angle1)) + earExtension * Math.cos(perpAngle1);
+    const ear1EndY = (reach * Math.sin(angle1)) + earExtension * Math.sin(perpAngle1);
     pathParts.push(`L ${ear1EndX.toFixed(3)} ${ear1EndY.toFixed(3)}`);
 
     // Back to outer boundary
-    const outerX1 = outerRadius * Math.cos(angle1);
-    const outerY1 = outerRadius * Math.sin(angle1);
+    const outerX1 = reach * Math.cos(angle1);
+    const outerY1 = reach * Math.sin(angle1);
     pathParts.push(`L ${outerX1.toFixed(3)} ${outerY1.toFixed(3)}`);
 
     // Arc along outer edge from angle1 to angle2
     const outerArcAngle = angle2 - angle1;
-    const outerSegments = Math.max(8, Math.ceil(Math.abs(outerArcAngle) / (Math.PI / arcSegments)));
+    const outerSegments = Math.max(8, segmentsFor(
+        tessellation,
+        reach,
+        Math.abs(outerArcAngle),
+        Math.ceil(Math.abs(outerArcAngle) / (Math.PI / tessellation.segmentsPerArc))
+    ));
     for (let i = 1; i <= outerSegments; i++) {
         const t = angle1 + (i / outerSegments) * outerArcAngle;
-        const x = outerRadius * Math.cos(t);
-        const y = outerRadius * Math.sin(t);
+        const x = reach * Math.cos(t);
+        const y = reach * Math.sin(t);
         pathParts.push(`L ${x.toFixed(3)} ${y.toFixed(3)}`);
     }
 
     // Ear 2 - on angle2 side
     const perpAngle2 = angle2 + Math.PI / 2; // perpendicular, pointing away from wedge center
-    const ear2StartX = outerRadius * Math.cos(angle2);
-    const ear2StartY = outerRadius * Math.sin(angle2);
+    const ear2StartX = reach * Math.cos(angle2);
+    const ear2StartY = reach * Math.sin(angle2);
 
     // Out to ear
     const ear2OuterX = ear2StartX + earExtension * Math.cos(perpAngle2);
@@ -503,19 +1005,171 @@ export function createEntryWedge(
     // Close path
     pathParts.push('Z');
 
-    const wedgePath = pathParts.join(' ');
-
     // No screw hole needed - ears hold the wedge in place
-    const screwHoleCenter = { x: 0, y: 0 }; // Unused but kept for interface compatibility
+    return { wedgePath: pathParts.join(' '), screwHoleCenter: null };
+}
 
-    return { wedgePath, screwHoleCenter };
+/**
+ * The wedge without ears: dovetail keys on both radial sides, or a plain
+ * wedge with a screw hole on its center line. Both are centered at keyRadius.
+ * The keys stay inside outerRadius; the rim edge is drawn at `reach`.
+ */
+function createPlainWedge(
+    outerRadius: number,
+    reach: number,
+    innerRadius: number,
+    angle1: number,
+    angle2: number,
+    keyRadius: number,
+    retention: 'dovetail' | 'screw',
+    keyLength: number,
+    tessellation: Tessellation
+): EntryWedgeShape {
+    // A point `along` the radial side at `angle`, moved `out` away from the wedge
+    const side = (angle: number, away: number) => (along: number, out: number) =>
+        `${(along * Math.cos(angle) + out * Math.cos(angle + away)).toFixed(3)} ${(along * Math.sin(angle) + out * Math.sin(angle + away)).toFixed(3)}`;
+    const side1 = side(angle1, -Math.PI / 2);
+    const side2 = side(angle2, Math.PI / 2);
+    const keys = retention === 'dovetail';
+    const center = clampKey(keyRadius, innerRadius, outerRadius, keyLength);
+
+    const pathParts: string[] = [`M ${side1(innerRadius, 0)}`];
+    if (keys) dovetailPoints(side1, center, keyLength).forEach(p => pathParts.push(`L ${p}`));
+    pathParts.push(`L ${side1(reach, 0)}`);
+
+    // Arc along outer edge from angle1 to angle2
+    const outerArcAngle = angle2 - angle1;
+    const outerSegments = Math.max(8, segmentsFor(
+        tessellation,
+        reach,
+        Math.abs(outerArcAngle),
+        Math.ceil(Math.abs(outerArcAngle) / (Math.PI / tessellation.segmentsPerArc))
+    ));
+    for (let i = 1; i <= outerSegments; i++) {
+        const t = angle1 + (i / outerSegments) * outerArcAngle;
+        pathParts.push(`L ${(reach * Math.cos(t)).toFixed(3)} ${(reach * Math.sin(t)).toFixed(3)}`);
+    }
+
+    if (keys) dovetailPoints(side2, center, keyLength).reverse().forEach(p => pathParts.push(`L ${p}`));
+    pathParts.push(`L ${side2(innerRadius, 0)}`);
+    pathParts.push('Z');
+
+    const axis = (angle1 + angle2) / 2;
+    return {
+        wedgePath: pathParts.join(' '),
+        screwHoleCenter: keys ? null : { x: keyRadius * Math.cos(axis), y: keyRadius * Math.sin(axis) }
+    };
+}
+
+/**
+ * Dovetail key on one side of a wedge or plug, as points in order along the side.
+ * `at(along, out)` places a point `along` the side and `out` away from the part.
+ * The key flares towards its end, so the part can be lifted out but not slid out.
+ */
+function dovetailPoints(at: (along: number, out: number) => string, center: number, length: number): string[] {
+    const neck = length / 2;
+    const flare = length * Math.tan(DOVETAIL_FLARE);
+    return [
+        at(center - neck, 0),
+        at(center - neck - flare, length),
+        at(center + neck + flare, length),
+        at(center + neck, 0),
+    ];
+}
+
+// Keeps a dovetail key of this length between `from` and `to` along its side where it fits
+function clampKey(center: number, from: number, to: number, length: number): number {
+    const extent = length / 2 + length * Math.tan(DOVETAIL_FLARE);
+    return from + extent > to - extent ? center : Math.min(Math.max(center, from + extent), to - extent);
+}
+
+
+/**
+ * Creates the plug that closes a side-entry slot, the wedge's counterpart in 'side' entry mode.
+ * It fills the slot from the start corridor's rounded end out to the rim, and is held by
+ * the same retention features as the wedge. Uses polyline segments (M/L/Z only) like the wedge.
+ */
+export function createSlotPlug(
+    outerRadius: number,
+    innerRadius: number,
+    corridorWidth: number,
+    entryAngle: number, // radians
+    options: EntryWedgeOptions = {},
+    arcSegments: number = 32
+): EntryWedgeShape {
+    const { retention = 'ears', earLength = DEFAULT_EAR_LENGTH, earPosition = DEFAULT_EAR_POSITION } = options;
+    const tessellation = options.tessellation ?? createTessellation(0, arcSegments);
+    const reach = rimReach(outerRadius, options.boardSides);
+    const slotRadius = corridorWidth / 2;
+
+    // Same ear placement as the wedge, but always clear of the corridor's rounded end
+    const earStartRadius = Math.max(innerRadius + (outerRadius - innerRadius) * (earPosition / 100), innerRadius + slotRadius);
+
+    // Points by distance along the slot's axis and offset across it
+    const cos = Math.cos(entryAngle);
+    const sin = Math.sin(entryAngle);
+    const point = (along: number, across: number) =>
+        `${(along * cos - across * sin).toFixed(3)} ${(along * sin + across * cos).toFixed(3)}`;
+    const rimAlong = (across: number, radius: number = reach) => Math.sqrt(radius * radius - across * across);
+
+    const keyCenter = clampKey(earStartRadius, innerRadius + slotRadius, rimAlong(slotRadius, outerRadius), earLength);
+    const pathParts: string[] = [`M ${point(innerRadius, slotRadius)}`];
+
+    // Up one side, out along the ear or round the key
+    if (retention === 'ears') {
+        pathParts.push(`L ${point(earStartRadius, slotRadius)}`);
+        pathParts.push(`L ${point(earStartRadius, slotRadius + earLength)}`);
+    } else if (retention === 'dovetail') {
+        dovetailPoints((along, out) => point(along, slotRadius + out), keyCenter, earLength).forEach(p => pathParts.push(`L ${p}`));
+    }
+
+    // Flush with the rim across the slot (and the ears)
+    const halfWidth = retention === 'ears' ? slotRadius + earLength : slotRadius;
+    const rimHalfAngle = Math.asin(halfWidth / reach);
+    const rimSegments = Math.max(8, segmentsFor(
+        tessellation,
+        reach,
+        2 * rimHalfAngle,
+        Math.ceil((2 * rimHalfAngle) / (Math.PI / tessellation.segmentsPerArc))
+    ));
+    for (let i = 0; i <= rimSegments; i++) {
+        const across = reach * Math.sin(rimHalfAngle - (i / rimSegments) * 2 * rimHalfAngle);
+        pathParts.push(`L ${point(rimAlong(across), across)}`);
+    }
+
+    // Back in along the other side
+    if (retention === 'ears') {
+        pathParts.push(`L ${point(earStartRadius, -halfWidth)}`);
+        pathParts.push(`L ${point(earStartRadius, -slotRadius)}`);
+    } else if (retention === 'dovetail') {
+        dovetailPoints((along, out) => point(along, -slotRadius - out), keyCenter, earLength).reverse().forEach(p => pathParts.push(`L ${p}`));
+    }
+    pathParts.push(`L ${point(innerRadius, -slotRadius)}`);
+
+    // Round the inner end around the corridor's end so the start stays a full circle
+    const capSegments = Math.max(8, segmentsFor(tessellation, slotRadius, Math.PI, Math.ceil(tessellation.segmentsPerArc / 2)));
+    for (let i = 1; i < capSegments; i++) {
+        const t = -Math.PI / 2 + (i / capSegments) * Math.PI;
+        pathParts.push(`L ${point(innerRadius + slotRadius * Math.cos(t), slotRadius * Math.sin(t))}`);
+    }
+
+    pathParts.push('Z');
+
+    // The screw sits on the axis, past the corridor's rounded end
+    const screwAlong = Math.max(earStartRadius, innerRadius + slotRadius + WEDGE_SCREW_DIAMETER);
+    return {
+        wedgePath: pathParts.join(' '),
+        screwHoleCenter: retention === 'screw' ? { x: screwAlong * cos, y: screwAlong * sin } : null
+    };
 }
 
 /**
- * Creates a simple circle path for a screw hole.
+ * Creates a simple circle path for a screw hole. With a tessellation, `segments`
+ * only applies when it has no chord tolerance.
  */
-export function createScrewHolePath(cx: number, cy: number, diameter: number, segments: number = 32): string {
+export function createScrewHolePath(cx: number, cy: number, diameter: number, segments: number = 32, tessellation?: Tessellation): string {
     const radius = diameter / 2;
+    if (tessellation) segments = Math.max(8, segmentsFor(tessellation, radius, 2 * Math.PI, segments));
     const points: string[] = [];
 
     for (let i = 0; i <= segments; i++) {
@@ -538,37 +1192,66 @@ export function createScrewHolePath(cx: number, cy: number, diameter: number, se
  */
 export interface EntryWedgeData {
     wedgePath: string;      // SVG path for wedge outline (cut)
-    screwHolePath: string;  // SVG path for 3mm screw hole
+    socketPath: string;     // SVG path for the wedge's opening when cut apart from the wedge (clearance), else empty
+    screwHolePath: string;  // SVG path for the 3mm screw hole, empty unless retention is 'screw'
 }
 
 /**
- * Generates entry wedge paths for export.
+ * Generates entry wedge paths for export. In 'side' entry mode this is the slot plug.
+ * On a polygon board the shape is sized to the rim along the entry and cut flush with
+ * the board's sides; outerRadius is then the corner radius.
  */
 export function generateEntryWedgePaths(
     entryHoleX: number,
     entryHoleY: number,
     outerRadius: number,
     corridorWidth: number,
-    holeRadius: number // radius of entry hole
+    holeRadius: number, // radius of entry hole
+    options: EntryWedgeOptions = {}
 ): EntryWedgeData {
+    const { entryMode = 'hole', clearance = 0, boardSides = 0 } = options;
+
     // Entry angle is the angle from center to entry point
     const entryAngle = Math.atan2(entryHoleY, entryHoleX);
 
     // Inner radius is the distance from center to entry point
     const innerRadius = Math.sqrt(entryHoleX * entryHoleX + entryHoleY * entryHoleY);
 
-    const { wedgePath } = createEntryWedge(
-        outerRadius,
-        innerRadius,
-        corridorWidth,
-        entryAngle,
-        holeRadius
-    );
+    // A side entry already opens to the rim; the wedge becomes a plug for the slot
+    const board: Board = { sides: boardSides, radius: outerRadius, innerRadius: 0 };
+    const rim = rimDistance(board, entryAngle);
+    const shape = entryMode === 'side'
+        ? createSlotPlug(rim, innerRadius, corridorWidth, entryAngle, options)
+        : createEntryWedge(rim, innerRadius, corridorWidth, entryAngle, options);
+    const { screwHoleCenter } = shape;
+    const wedgePath = boardSides > 0
+        ? clipperPathsToSvgPath(intersectPolygons(svgPathToClipperPaths(shape.wedgePath, options.tessellation ?? 32), [createBoardPolygon(board)]))
+        : shape.wedgePath;
+
+    // With a clearance the wedge is shrunk and its opening cut as a line of its own
+    return {
+        wedgePath: clearance > 0 ? offsetClosedPath(wedgePath, -clearance, options.tessellation) : wedgePath,
+        socketPath: clearance > 0 ? wedgePath : '',
+        screwHolePath: screwHoleCenter
+            ? createScrewHolePath(screwHoleCenter.x, screwHoleCenter.y, WEDGE_SCREW_DIAMETER, 32, options.tessellation)
+            : ''
+    };
+}
 
+/**
+ * Entry wedge settings from a maze config.
+ */
+export function entryWedgeOptions(config: MazeConfig): EntryWedgeOptions {
     return {
-        wedgePath,
-        screwHolePath: '' // No screw hole - ears hold wedge in place with rubber band
+        entryMode: config.entryMode ?? 'hole',
+        retention: config.wedgeRetention ?? 'ears',
+        earLength: config.wedgeEarLength ?? DEFAULT_EAR_LENGTH,
+        earPosition: config.wedgeEarPosition ?? DEFAULT_EAR_POSITION,
+        clearance: config.wedgeClearance ?? 0,
+        tessellation: createTessellation(config.chordTolerance ?? 0),
+        boardSides: boardOf(config).sides,
     };
 }
 
+
 export { CLIPPER_SCALE };
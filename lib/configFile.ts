@@ -0,0 +1,168 @@
+/**
+ * Saving and sharing configs.
+ *
+ * A config travels as JSON with a schema version, either as a file or packed
+ * into the page URL's hash. Every field is written out, defaults included, so
+ * a link keeps reproducing the same maze after the defaults change. A field
+ * added after a file's schema version gets the value that reproduces that
+ * version's mazes; bump the version whenever a new field's default would change
+ * an older maze.
+ */
+
+import { MazeConfig } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { MAZE_ALGORITHMS, difficultyTuning } from './mazeAlgorithms';
+import { SCORE_WEIGHTS } from './mazeStats';
+import { RNG_VERSIONS } from './random';
+
+export const CONFIG_SCHEMA_VERSION = 2;
+
+// Fields added after each schema version, with the values files and links of
+// that version were generated with
+const ADDED_AFTER_VERSION: Record<number, Partial<MazeConfig>> = {
+  1: {
+    boardShape: 'circle',
+    boardSides: 6,
+    innerDiameter: 0,
+    wedgeRetention: 'ears',
+    wedgeEarLength: 7,
+    wedgeEarPosition: 65,
+    wedgeClearance: 0,
+    chordTolerance: 0,
+    entryMode: 'hole',
+  },
+};
+
+export interface ConfigFile {
+  version: number;
+  config: MazeConfig;
+}
+
+// Fields that may be null as well as their default's type
+const NULLABLE_FIELDS: (keyof MazeConfig)[] = ['tuning'];
+
+// Fields that pick one of a few options, and the options
+const OPTION_FIELDS: Partial<Record<keyof MazeConfig, readonly unknown[]>> = {
+  algorithm: Object.keys(MAZE_ALGORITHMS),
+  rngVersion: Object.keys(RNG_VERSIONS).map(Number),
+  gridTopology: ['nearest', 'overlap'],
+  dxfVersion: ['R12', 'R2000'],
+  entryMode: ['hole', 'side'],
+  boardShape: ['circle', 'polygon'],
+  wedgeRetention: ['ears', 'dovetail', 'screw'],
+};
+
+// Fields holding a set of numeric weights, and the weights each must have
+const WEIGHT_FIELDS: Partial<Record<keyof MazeConfig, string[]>> = {
+  scoreWeights: Object.keys(SCORE_WEIGHTS),
+  tuning: Object.keys(difficultyTuning(1)),
+};
+
+// The value to store if `value` (already of the right type) is one the field accepts, else undefined
+const acceptedValue = (key: keyof MazeConfig, value: unknown): unknown => {
+  const options = OPTION_FIELDS[key];
+  if (options) return options.includes(value) ? value : undefined;
+
+  const weights = WEIGHT_FIELDS[key];
+  if (!weights || value === null) return value;
+  if (Array.isArray(value)) return undefined;
+  const input = value as Record<string, unknown>;
+  if (!weights.every(w => typeof input[w] === 'number' && Number.isFinite(input[w]))) return undefined;
+  return Object.fromEntries(weights.map(w => [w, input[w]]));
+};
+
+/**
+ * Checks a parsed config against the defaults' field types, the options of
+ * option fields and the weights of weight sets, and fills in missing fields as
+ * a config of schema `version` had them. Unknown fields are dropped. Throws on
+ * a wrong value.
+ */
+export const normalizeConfig = (raw: unknown, version: number = CONFIG_SCHEMA_VERSION): MazeConfig => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('Config is not an object');
+  const input = raw as Record<string, unknown>;
+  const config: Record<string, unknown> = { ...DEFAULT_CONFIG };
+  for (let v = version; v < CONFIG_SCHEMA_VERSION; v++) Object.assign(config, ADDED_AFTER_VERSION[v]);
+
+  for (const key of Object.keys(DEFAULT_CONFIG) as (keyof MazeConfig)[]) {
+    const value = input[key];
+    if (value === undefined) continue;
+    const wrongType = value === null
+      ? !NULLABLE_FIELDS.includes(key)
+      : typeof value !== typeof DEFAULT_CONFIG[key] || (typeof value === 'number' && !Number.isFinite(value));
+    const accepted = wrongType ? undefined : acceptedValue(key, value);
+    if (accepted === undefined) throw new Error(`Invalid value for "${key}"`);
+    config[key] = accepted;
+  }
+
+  return config as unknown as MazeConfig;
+};
+
+/**
+ * The JSON a "Save config" file contains.
+ */
+export const serializeConfig = (config: MazeConfig): string => {
+  const file: ConfigFile = { version: CONFIG_SCHEMA_VERSION, config };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Reads a saved config file. Throws if it isn't one or is from a newer version.
+ */
+export const parseConfigFile = (text: string): MazeConfig => {
+  let file: Partial<ConfigFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (!file || typeof file.version !== 'number' || !file.config) throw new Error('Not a maze config file');
+  if (file.version > CONFIG_SCHEMA_VERSION) {
+    throw new Error(`Config version ${file.version} is newer than this app supports (${CONFIG_SCHEMA_VERSION})`);
+  }
+  return normalizeConfig(file.config, file.version);
+};
+
+// base64url, so the hash needs no further escaping
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+/**
+ * URL hash for a config: `#v=2&config=<base64url JSON>`.
+ */
+export const encodeConfigHash = (config: MazeConfig): string =>
+  `#v=${CONFIG_SCHEMA_VERSION}&config=${toBase64Url(JSON.stringify(config))}`;
+
+/**
+ * Reads a config from a URL hash. Returns null if the hash holds none;
+ * throws if it holds one that can't be read.
+ */
+export const decodeConfigHash = (hash: string): MazeConfig | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get('config');
+  if (!encoded) return null;
+
+  const version = Number(params.get('v') ?? CONFIG_SCHEMA_VERSION);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Unrecognised link version "${params.get('v')}"`);
+  }
+  if (version > CONFIG_SCHEMA_VERSION) {
+    throw new Error(`Link version ${params.get('v')} is newer than this app supports (${CONFIG_SCHEMA_VERSION})`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new Error('The link\'s config is damaged');
+  }
+  return normalizeConfig(raw, version);
+};
@@ -0,0 +1,43 @@
+import { MazeConfig } from '../types';
+import { LATEST_RNG_VERSION } from './random';
+import { SCORE_WEIGHTS } from './mazeStats';
+
+/**
+ * Settings for new mazes, shared by the app and the CLI.
+ * The seed is a placeholder; callers pick their own. Code reading a config
+ * falls back on a missing field to how mazes were cut before the field existed,
+ * not to these values.
+ */
+export const DEFAULT_CONFIG: MazeConfig = {
+  diameter: 290,
+  boardShape: 'circle',
+  boardSides: 6,
+  innerDiameter: 0,
+  wallWidth: 11,
+  corridorWidth: 14,
+  difficulty: 5,
+  cornerRounding: true,
+  seed: 0,
+  holeRadius: 12,
+  showEntryWedge: false,
+  wedgeRetention: 'ears',
+  wedgeEarLength: 7,
+  wedgeEarPosition: 65,
+  wedgeClearance: 0,
+  algorithm: 'growingTree',
+  rngVersion: LATEST_RNG_VERSION,
+  gridTopology: 'overlap',
+  braid: 0,
+  dxfVersion: 'R2000',
+  arcTolerance: 0.02,
+  chordTolerance: 0.01,
+  kerfWidth: 0,
+  boltHoleCount: 4,
+  boltHoleDiameter: 3.4, // M3 clearance
+  minWallThickness: 2,
+  tuning: null,
+  scoreWeights: { ...SCORE_WEIGHTS },
+  entryAngle: 0,
+  entryRank: 1,
+  entryMode: 'hole',
+};
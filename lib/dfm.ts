@@ -0,0 +1,282 @@
+/**
+ * Design-for-manufacture check of the cut geometry.
+ *
+ * Measures the lines buildMazeOutlines cuts, so the kerf, the wedge and its
+ * socket, a side entry's slot and the bolt holes all count as they will be cut.
+ * The beam burns half a kerf into the material on either side of a line, so the
+ * wall between two cut lines is their gap minus the kerf width.
+ *
+ * The corridor outline is merged into one polygon that no longer says which
+ * passages a wall separates. Each passage is therefore offset on its own, the
+ * way createMazeOutline offsets them before the union, and measured against
+ * every passage it does not share a node with. Every other cut is measured
+ * against every cut it doesn't meet by design: passages and the slot meet the
+ * holes at their own nodes, and the wedge meets the entry and the rim. Spans
+ * whose middle lies in another cutout are open floor, not wall, and are skipped.
+ */
+
+import { MazeData, Point } from '../types';
+import { goalRadius } from './board';
+import { CLIPPER_SCALE, cutTessellation, offsetPaths, svgPathToClipperPaths } from './clipperUtils';
+import { buildMazeOutlines } from './exporters';
+import { passagePathD } from './mazeAlgorithms';
+
+export type DFMIssueKind = 'thinWall' | 'merged';
+
+// What sits on either side of a flagged wall
+export type DFMFeature = 'corridor' | 'centerHole' | 'entryHole' | 'boltHole' | 'wedge' | 'rim';
+
+export interface DFMIssue {
+  kind: DFMIssueKind;
+  thickness: number; // mm of wall left, 0 or less when the cuts touch
+  between: [DFMFeature, DFMFeature];
+  from: Point; // narrowest span, cut edge to cut edge
+  to: Point;
+}
+
+export interface DFMReport {
+  threshold: number; // mm
+  minThickness: number; // thinnest wall anywhere, mm
+  issues: DFMIssue[]; // thinnest first
+}
+
+// Minimum wall (mm) flagged when the config doesn't set one
+export const DEFAULT_MIN_WALL_THICKNESS = 2;
+
+type Segment = [number, number, number, number];
+
+// One feature's cut lines
+interface Cut {
+  feature: DFMFeature;
+  segments: Segment[];
+  meets: string[]; // what it opens onto by design: node ids, 'rim' or 'wedge'
+  dropout: boolean; // the material inside falls out
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const toCut = (
+  feature: DFMFeature,
+  paths: ReturnType<typeof svgPathToClipperPaths>,
+  meets: string[],
+  dropout: boolean = true
+): Cut => {
+  const segments: Segment[] = [];
+  for (const path of paths) {
+    // Cut lines are closed
+    for (let i = 0; i < path.length; i++) {
+      const a = path[i === 0 ? path.length - 1 : i - 1];
+      const b = path[i];
+      segments.push([a.X / CLIPPER_SCALE, a.Y / CLIPPER_SCALE, b.X / CLIPPER_SCALE, b.Y / CLIPPER_SCALE]);
+    }
+  }
+  const xs = segments.flatMap(([ax, , bx]) => [ax, bx]);
+  const ys = segments.flatMap(([, ay, , by]) => [ay, by]);
+  return { feature, segments, meets, dropout, minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+};
+
+const closestOnSegment = (p: Point, [ax, ay, bx, by]: Segment): Point => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - ax) * dx + (p.y - ay) * dy) / lengthSq)) : 0;
+  return { x: ax + t * dx, y: ay + t * dy };
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(b.x - a.x, b.y - a.y);
+
+// Closest pair of points between two segments, the crossing point if they cross
+const closestBetween = (s: Segment, t: Segment): [Point, Point] => {
+  const [ax, ay, bx, by] = s;
+  const [cx, cy, dx, dy] = t;
+  const denominator = (bx - ax) * (dy - cy) - (by - ay) * (dx - cx);
+  if (denominator !== 0) {
+    const u = ((cx - ax) * (dy - cy) - (cy - ay) * (dx - cx)) / denominator;
+    const v = ((cx - ax) * (by - ay) - (cy - ay) * (bx - ax)) / denominator;
+    if (u >= 0 && u <= 1 && v >= 0 && v <= 1) {
+      const crossing = { x: ax + u * (bx - ax), y: ay + u * (by - ay) };
+      return [crossing, crossing];
+    }
+  }
+  const candidates: [Point, Point][] = [
+    [{ x: ax, y: ay }, closestOnSegment({ x: ax, y: ay }, t)],
+    [{ x: bx, y: by }, closestOnSegment({ x: bx, y: by }, t)],
+    [closestOnSegment({ x: cx, y: cy }, s), { x: cx, y: cy }],
+    [closestOnSegment({ x: dx, y: dy }, s), { x: dx, y: dy }],
+  ];
+  return candidates.reduce((best, pair) => (distance(...pair) < distance(...best) ? pair : best));
+};
+
+// Even-odd ray cast against a cut's closed lines
+const isInside = (p: Point, cut: Cut): boolean => {
+  if (p.x < cut.minX || p.x > cut.maxX || p.y < cut.minY || p.y > cut.maxY) return false;
+  let inside = false;
+  for (const [ax, ay, bx, by] of cut.segments) {
+    if ((ay > p.y) !== (by > p.y) && p.x < ax + ((p.y - ay) / (by - ay)) * (bx - ax)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const meetByDesign = (a: Cut, b: Cut): boolean => a.meets.some(key => b.meets.includes(key));
+
+// Moves `distance` from p towards q
+const towards = (p: Point, q: Point, d: number): Point => {
+  const length = distance(p, q) || 1;
+  return { x: p.x + ((q.x - p.x) * d) / length, y: p.y + ((q.y - p.y) * d) / length };
+};
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Finds every wall thinner than config.minWallThickness and every place where
+ * cuts that aren't connected in the maze graph touch.
+ */
+export const checkManufacturability = (data: MazeData): DFMReport => {
+  const { config, nodes, edges, startNodeId } = data;
+  const threshold = config.minWallThickness ?? DEFAULT_MIN_WALL_THICKNESS;
+  const kerfWidth = config.kerfWidth ?? 0;
+  const stepSize = config.corridorWidth + config.wallWidth;
+  // Cut lines further apart than this can't hold the thinnest wall (walls are nominally wallWidth)
+  const reach = Math.max(threshold, config.wallWidth) + kerfWidth;
+
+  const { outlines, wedgeData } = buildMazeOutlines(data);
+  const tessellation = cutTessellation(config.arcTolerance ?? 0, config.chordTolerance ?? 0);
+  const parse = (pathD: string) => (pathD ? svgPathToClipperPaths(pathD, tessellation) : []);
+  const stroke = (pathD: string) => offsetPaths(
+    parse(pathD),
+    config.corridorWidth / 2 - kerfWidth / 2,
+    config.cornerRounding ? 'round' : 'miter',
+    tessellation
+  );
+
+  const center = `${nodes.find(n => n.r === 0)!.id}`;
+  const start = `${startNodeId}`;
+  const cuts: Cut[] = edges.map(edge =>
+    toCut('corridor', stroke(passagePathD(edge.p1, edge.p2, stepSize, goalRadius(config))), [`${edge.p1.id}`, `${edge.p2.id}`])
+  );
+  if (data.entrancePathD) cuts.push(toCut('corridor', stroke(data.entrancePathD), [start, 'rim']));
+  cuts.push(toCut('centerHole', parse(outlines.centerHole || outlines.innerBoundary), [center]));
+  if (outlines.entryHole) cuts.push(toCut('entryHole', parse(outlines.entryHole), [start]));
+  for (const hole of parse(outlines.boltHoles)) cuts.push(toCut('boltHole', [hole], []));
+  cuts.push(toCut('rim', parse(outlines.boundary), ['rim'], false));
+  if (wedgeData) {
+    // The wedge is a part, not a cutout; of its lines only the screw hole encloses waste
+    cuts.push(toCut('wedge', parse(wedgeData.wedgePath), [start, 'rim', 'wedge'], false));
+    if (wedgeData.socketPath) cuts.push(toCut('wedge', parse(wedgeData.socketPath), [start, 'rim', 'wedge'], false));
+    if (wedgeData.screwHolePath) cuts.push(toCut('wedge', parse(wedgeData.screwHolePath), []));
+  }
+
+  // Bucket each cut's lines on a grid of `reach`, split so no piece spans more than two cells
+  const owner: number[] = [];
+  const pieces: Segment[] = [];
+  const grid = new Map<number, Map<number, number[]>>(); // cell -> cut -> pieces
+  const cellsAround = ([ax, ay, bx, by]: Segment, margin: number): number[] => {
+    const keys: number[] = [];
+    for (let x = Math.floor((Math.min(ax, bx) - margin) / reach); x <= Math.floor((Math.max(ax, bx) + margin) / reach); x++) {
+      for (let y = Math.floor((Math.min(ay, by) - margin) / reach); y <= Math.floor((Math.max(ay, by) + margin) / reach); y++) {
+        keys.push((x + 32768) * 65536 + y + 32768);
+      }
+    }
+    return keys;
+  };
+  cuts.forEach((cut, index) => {
+    for (const [ax, ay, bx, by] of cut.segments) {
+      const count = Math.max(1, Math.ceil(Math.hypot(bx - ax, by - ay) / reach));
+      for (let k = 0; k < count; k++) {
+        const piece: Segment = [
+          ax + ((bx - ax) * k) / count, ay + ((by - ay) * k) / count,
+          ax + ((bx - ax) * (k + 1)) / count, ay + ((by - ay) * (k + 1)) / count,
+        ];
+        for (const key of cellsAround(piece, 0)) {
+          let cell = grid.get(key);
+          if (!cell) grid.set(key, (cell = new Map()));
+          const bucket = cell.get(index);
+          if (bucket) bucket.push(pieces.length);
+          else cell.set(index, [pieces.length]);
+        }
+        pieces.push(piece);
+        owner.push(index);
+      }
+    }
+  });
+
+  // Narrowest span between each pair of cuts that come within reach
+  const closest = new Map<number, { a: number; b: number; p: Point; q: Point; gap: number }>();
+  const lastSeenBy = new Int32Array(pieces.length).fill(-1);
+  pieces.forEach((piece, i) => {
+    const a = owner[i];
+    const [ax, ay, bx, by] = piece;
+    for (const key of cellsAround(piece, reach)) {
+      for (const [b, bucket] of grid.get(key) ?? []) {
+        if (b <= a || meetByDesign(cuts[a], cuts[b])) continue;
+        const pair = a * cuts.length + b;
+        for (const j of bucket) {
+          // A piece can sit in several of the cells around this one
+          if (lastSeenBy[j] === i) continue;
+          lastSeenBy[j] = i;
+          const limit = Math.min(reach, closest.get(pair)?.gap ?? Infinity);
+          // Bounding boxes further apart than that can't hold a narrower span
+          const [cx, cy, dx, dy] = pieces[j];
+          const apartX = Math.max(0, Math.min(cx, dx) - Math.max(ax, bx), Math.min(ax, bx) - Math.max(cx, dx));
+          const apartY = Math.max(0, Math.min(cy, dy) - Math.max(ay, by), Math.min(ay, by) - Math.max(cy, dy));
+          if (apartX >= limit || apartY >= limit) continue;
+          const [p, q] = closestBetween(piece, pieces[j]);
+          const gap = distance(p, q);
+          if (gap < limit) closest.set(pair, { a, b, p, q, gap });
+        }
+      }
+    }
+  });
+
+  // Is p open floor of a cutout other than the two measured?
+  const isOpen = (p: Point, except: Cut[], onlyConnecting?: (cut: Cut) => boolean): boolean =>
+    cuts.some(cut =>
+      cut.dropout && !except.includes(cut) && (!onlyConnecting || onlyConnecting(cut)) && isInside(p, cut)
+    );
+
+  // Walls laid out at exactly the threshold can measure a hair under it: the cut lines
+  // stray up to deviationBound from their true curves, and the segments measured here further still
+  const tolerance = 2 * (outlines.deviationBound + tessellation.maxDeviation) + 1e-9;
+  const issues: DFMIssue[] = [];
+  let minThickness = Infinity;
+  for (const { a, b, p, q, gap } of closest.values()) {
+    const thickness = gap - kerfWidth;
+    const isThin = thickness < threshold - tolerance;
+    if (!isThin && thickness >= minThickness) continue;
+    const [cutA, cutB] = [cuts[a], cuts[b]];
+    // Overlapping cuts only count when nothing that meets both joins them there
+    const isLinked = thickness > 0
+      ? isOpen(midpoint(p, q), [cutA, cutB])
+      : isOpen(midpoint(p, q), [cutA, cutB], cut => meetByDesign(cut, cutA) && meetByDesign(cut, cutB));
+    if (isLinked) continue;
+    minThickness = Math.min(minThickness, thickness);
+    if (isThin) {
+      // `from`/`to` are the material edges, half a kerf inside each cut line
+      const from = thickness > 0 ? towards(p, q, kerfWidth / 2) : p;
+      const to = thickness > 0 ? towards(q, p, kerfWidth / 2) : q;
+      issues.push({ kind: thickness <= 0 ? 'merged' : 'thinWall', thickness, between: [cutA.feature, cutB.feature], from, to });
+    }
+  }
+
+  issues.sort((a, b) => a.thickness - b.thickness);
+  return { threshold, minThickness, issues: mergeNearby(issues, config.corridorWidth) };
+};
+
+// One long pinch is measured once per pair of cuts along it; keep the thinnest spot
+const mergeNearby = (issues: DFMIssue[], spacing: number): DFMIssue[] => {
+  const kept: DFMIssue[] = [];
+  for (const issue of issues) {
+    const center = midpoint(issue.from, issue.to);
+    const duplicate = kept.some(k =>
+      k.kind === issue.kind &&
+      k.between.join() === issue.between.join() &&
+      distance(midpoint(k.from, k.to), center) < spacing
+    );
+    if (!duplicate) kept.push(issue);
+  }
+  return kept;
+};
@@ -0,0 +1,14 @@
+/**
+ * Browser download helper shared by the export buttons.
+ */
+export const downloadFile = (content: string, mimeType: string, filename: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
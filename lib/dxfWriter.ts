@@ -0,0 +1,503 @@
+/**
+ * Minimal DXF writer.
+ *
+ * Callers describe a drawing as layers and entities; writeDXF serializes it as
+ * either R12 (AC1009, POLYLINE/VERTEX, readable by nearly everything) or
+ * R2000 (AC1015, LWPOLYLINE with bulges, handles and the tables/objects that
+ * version requires). CIRCLE and ARC exist in both versions. R12 writes polyline
+ * bulges as short chords, so its polylines are straight segments only.
+ *
+ * Coordinates are written as given. The maze exporters pass SVG coordinates
+ * straight through, as the original R12 export did.
+ */
+
+import { DXFVersion } from '../types';
+
+// DXF format: https://www.autodesk.com/techpubs/autocad/acad2000/dxf/
+
+// mm; furthest an R12 chord strays from the bulge arc it replaces
+export const R12_CHORD_TOLERANCE = 0.01;
+
+export interface DXFLayer {
+  name: string;
+  color: number; // AutoCAD Color Index, e.g. 1 red, 2 yellow, 3 green, 7 white
+}
+
+export interface DXFVertex {
+  x: number;
+  y: number;
+  // Tangent of a quarter of the included angle of the arc to the next vertex.
+  // Positive sweeps toward increasing angle, 0 or undefined is a straight segment.
+  bulge?: number;
+}
+
+export interface DXFPolyline {
+  type: 'polyline';
+  layer: string;
+  vertices: DXFVertex[];
+  closed: boolean;
+}
+
+export interface DXFCircle {
+  type: 'circle';
+  layer: string;
+  cx: number;
+  cy: number;
+  r: number;
+}
+
+export interface DXFArc {
+  type: 'arc';
+  layer: string;
+  cx: number;
+  cy: number;
+  r: number;
+  startAngle: number; // degrees, the arc runs toward increasing angle
+  endAngle: number;
+}
+
+export type DXFEntity = DXFPolyline | DXFCircle | DXFArc;
+
+export interface DXFDocument {
+  layers: DXFLayer[]; // layer "0" is always written first and need not be listed
+  entities: DXFEntity[];
+  extents: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+/**
+ * Converts SVG path data into DXF polylines. Handles M, L, A (circular arcs,
+ * written as bulges) and Z; every M or Z starts a new polyline.
+ */
+export function svgPathToPolylines(pathD: string, layer: string): DXFPolyline[] {
+  if (!pathD || pathD.trim() === '') return [];
+
+  const polylines: DXFPolyline[] = [];
+  const commands = pathD.match(/[MLAZ][^MLAZ]*/gi) || [];
+  let vertices: DXFVertex[] = [];
+
+  const flush = (closed: boolean) => {
+    if (vertices.length >= 2) {
+      polylines.push({ type: 'polyline', layer, vertices, closed });
+    }
+    vertices = [];
+  };
+
+  for (const cmd of commands) {
+    const type = cmd[0].toUpperCase();
+    const nums = cmd.slice(1).trim().split(/[\s,]+/).filter(s => s.length > 0).map(Number);
+
+    if (type === 'M' || type === 'L') {
+      if (type === 'M') flush(false);
+      for (let i = 0; i < nums.length; i += 2) {
+        if (!isNaN(nums[i]) && !isNaN(nums[i + 1])) {
+          vertices.push({ x: nums[i], y: nums[i + 1] });
+        }
+      }
+    } else if (type === 'A') {
+      for (let i = 0; i + 6 < nums.length; i += 7) {
+        const prev = vertices[vertices.length - 1];
+        const [rx, , , largeArc, sweep, x, y] = nums.slice(i, i + 7);
+        if (prev) {
+          prev.bulge = arcBulge(prev.x, prev.y, x, y, rx, largeArc === 1, sweep === 1);
+        }
+        vertices.push({ x, y });
+      }
+    } else if (type === 'Z') {
+      flush(true);
+    }
+  }
+
+  flush(false);
+  return polylines;
+}
+
+/**
+ * Moves an entity by (dx, dy).
+ */
+export function translateEntity(entity: DXFEntity, dx: number, dy: number): DXFEntity {
+  if (entity.type === 'polyline') {
+    return { ...entity, vertices: entity.vertices.map(v => ({ ...v, x: v.x + dx, y: v.y + dy })) };
+  }
+  return { ...entity, cx: entity.cx + dx, cy: entity.cy + dy };
+}
+
+/**
+ * Bulge for a circular arc of radius r between two points, using SVG arc flags.
+ */
+function arcBulge(x1: number, y1: number, x2: number, y2: number, r: number, largeArc: boolean, sweep: boolean): number {
+  const chord = Math.hypot(x2 - x1, y2 - y1);
+  if (chord === 0 || r <= 0) return 0;
+
+  let angle = 2 * Math.asin(Math.min(1, chord / (2 * r)));
+  if (largeArc) angle = 2 * Math.PI - angle;
+
+  // SVG sweep=1 runs toward increasing angle, the same sense as a positive bulge
+  const bulge = Math.tan(angle / 4);
+  return sweep ? bulge : -bulge;
+}
+
+/**
+ * Replaces every bulge with chords within R12_CHORD_TOLERANCE of its arc.
+ */
+function flattenBulges(vertices: DXFVertex[], closed: boolean): DXFVertex[] {
+  const flat: DXFVertex[] = [];
+  vertices.forEach((v, i) => {
+    flat.push({ x: v.x, y: v.y });
+    const next = vertices[i + 1] ?? (closed ? vertices[0] : undefined);
+    if (!v.bulge || !next) return;
+
+    const dx = next.x - v.x;
+    const dy = next.y - v.y;
+    const chord = Math.hypot(dx, dy);
+    if (chord === 0) return;
+    // The center sits off the chord's midpoint, to the left for a positive bulge under a half turn
+    const angle = 4 * Math.atan(v.bulge);
+    const offset = (chord / 2) * (1 - v.bulge * v.bulge) / (2 * v.bulge);
+    const cx = (v.x + next.x) / 2 - (dy / chord) * offset;
+    const cy = (v.y + next.y) / 2 + (dx / chord) * offset;
+    const r = Math.hypot(v.x - cx, v.y - cy);
+    const maxStep = r > R12_CHORD_TOLERANCE ? 2 * Math.acos(1 - R12_CHORD_TOLERANCE / r) : Math.PI;
+    const steps = Math.ceil(Math.abs(angle) / maxStep);
+    const start = Math.atan2(v.y - cy, v.x - cx);
+    for (let k = 1; k < steps; k++) {
+      const a = start + (angle * k) / steps;
+      flat.push({ x: cx + r * Math.cos(a), y: cy + r * Math.sin(a) });
+    }
+  });
+  return flat;
+}
+
+/**
+ * Serializes a drawing. R12 output is identical to what the app has always written
+ * for drawings without bulges.
+ */
+export function writeDXF(doc: DXFDocument, version: DXFVersion = 'R12'): string {
+  return version === 'R2000' ? writeR2000(doc) : writeR12(doc);
+}
+
+function createWriter() {
+  let dxf = '';
+  const add = (code: number | string, value: string | number) => {
+    dxf += `  ${code}\n${value}\n`;
+  };
+  return { add, toString: () => dxf };
+}
+
+function writeR12(doc: DXFDocument): string {
+  const { add, toString } = createWriter();
+  const { extents } = doc;
+
+  // HEADER section
+  add(0, 'SECTION');
+  add(2, 'HEADER');
+  add(9, '$ACADVER');
+  add(1, 'AC1009'); // AutoCAD R12 format
+  add(9, '$INSUNITS');
+  add(70, 4); // Millimeters
+  add(9, '$EXTMIN');
+  add(10, extents.minX);
+  add(20, extents.minY);
+  add(9, '$EXTMAX');
+  add(10, extents.maxX);
+  add(20, extents.maxY);
+  add(0, 'ENDSEC');
+
+  // TABLES section
+  add(0, 'SECTION');
+  add(2, 'TABLES');
+
+  // LTYPE table
+  add(0, 'TABLE');
+  add(2, 'LTYPE');
+  add(70, 1);
+  add(0, 'LTYPE');
+  add(2, 'CONTINUOUS');
+  add(70, 0);
+  add(3, 'Solid line');
+  add(72, 65);
+  add(73, 0);
+  add(40, 0.0);
+  add(0, 'ENDTAB');
+
+  // LAYER table
+  const layers = withDefaultLayer(doc.layers);
+  add(0, 'TABLE');
+  add(2, 'LAYER');
+  add(70, layers.length);
+  for (const layer of layers) {
+    add(0, 'LAYER');
+    add(2, layer.name);
+    add(70, 0);
+    add(62, layer.color);
+    add(6, 'CONTINUOUS');
+  }
+  add(0, 'ENDTAB');
+
+  add(0, 'ENDSEC');
+
+  // ENTITIES section
+  add(0, 'SECTION');
+  add(2, 'ENTITIES');
+
+  for (const entity of doc.entities) {
+    if (entity.type === 'polyline') {
+      add(0, 'POLYLINE');
+      add(8, entity.layer);
+      add(66, 1); // Vertices follow
+      add(70, entity.closed ? 1 : 0);
+
+      for (const v of flattenBulges(entity.vertices, entity.closed)) {
+        add(0, 'VERTEX');
+        add(8, entity.layer);
+        add(10, v.x.toFixed(6));
+        add(20, v.y.toFixed(6));
+        add(30, 0);
+      }
+
+      add(0, 'SEQEND');
+      add(8, entity.layer);
+    } else {
+      add(0, entity.type === 'circle' ? 'CIRCLE' : 'ARC');
+      add(8, entity.layer);
+      addCircleGeometry(add, entity, false);
+    }
+  }
+
+  add(0, 'ENDSEC');
+
+  // EOF
+  add(0, 'EOF');
+
+  return toString();
+}
+
+function writeR2000(doc: DXFDocument): string {
+  const body = createWriter();
+  const add = body.add;
+  const { extents } = doc;
+
+  // Every object in R2000 needs a unique hex handle; 1 is reserved for the root dictionary
+  let nextHandle = 2;
+  const handle = () => (nextHandle++).toString(16).toUpperCase();
+  const rootDictionary = '1';
+
+  const beginTable = (name: string, count: number) => {
+    const tableHandle = handle();
+    add(0, 'TABLE');
+    add(2, name);
+    add(5, tableHandle);
+    add(330, 0);
+    add(100, 'AcDbSymbolTable');
+    add(70, count);
+    if (name === 'DIMSTYLE') add(100, 'AcDbDimStyleTable');
+    return tableHandle;
+  };
+
+  const beginRecord = (type: string, owner: string, subclass: string) => {
+    add(0, type);
+    add(type === 'DIMSTYLE' ? 105 : 5, handle());
+    add(330, owner);
+    add(100, 'AcDbSymbolTableRecord');
+    add(100, subclass);
+  };
+
+  // CLASSES section (none needed)
+  add(0, 'SECTION');
+  add(2, 'CLASSES');
+  add(0, 'ENDSEC');
+
+  // TABLES section
+  add(0, 'SECTION');
+  add(2, 'TABLES');
+
+  beginTable('VPORT', 0);
+  add(0, 'ENDTAB');
+
+  let owner = beginTable('LTYPE', 3);
+  for (const [name, description] of [['ByBlock', ''], ['ByLayer', ''], ['CONTINUOUS', 'Solid line']]) {
+    beginRecord('LTYPE', owner, 'AcDbLinetypeTableRecord');
+    add(2, name);
+    add(70, 0);
+    add(3, description);
+    add(72, 65);
+    add(73, 0);
+    add(40, 0.0);
+  }
+  add(0, 'ENDTAB');
+
+  const layers = withDefaultLayer(doc.layers);
+  owner = beginTable('LAYER', layers.length);
+  for (const layer of layers) {
+    beginRecord('LAYER', owner, 'AcDbLayerTableRecord');
+    add(2, layer.name);
+    add(70, 0);
+    add(62, layer.color);
+    add(6, 'CONTINUOUS');
+  }
+  add(0, 'ENDTAB');
+
+  owner = beginTable('STYLE', 1);
+  beginRecord('STYLE', owner, 'AcDbTextStyleTableRecord');
+  add(2, 'STANDARD');
+  add(70, 0);
+  add(40, 0.0);
+  add(41, 1.0);
+  add(50, 0.0);
+  add(71, 0);
+  add(42, 2.5);
+  add(3, 'txt');
+  add(4, '');
+  add(0, 'ENDTAB');
+
+  beginTable('VIEW', 0);
+  add(0, 'ENDTAB');
+
+  beginTable('UCS', 0);
+  add(0, 'ENDTAB');
+
+  owner = beginTable('APPID', 1);
+  beginRecord('APPID', owner, 'AcDbRegAppTableRecord');
+  add(2, 'ACAD');
+  add(70, 0);
+  add(0, 'ENDTAB');
+
+  owner = beginTable('DIMSTYLE', 1);
+  beginRecord('DIMSTYLE', owner, 'AcDbDimStyleTableRecord');
+  add(2, 'STANDARD');
+  add(70, 0);
+  add(0, 'ENDTAB');
+
+  owner = beginTable('BLOCK_RECORD', 2);
+  const blockRecords: { name: string; handle: string }[] = [];
+  for (const name of ['*Model_Space', '*Paper_Space']) {
+    blockRecords.push({ name, handle: nextHandle.toString(16).toUpperCase() });
+    beginRecord('BLOCK_RECORD', owner, 'AcDbBlockTableRecord');
+    add(2, name);
+  }
+  add(0, 'ENDTAB');
+
+  add(0, 'ENDSEC');
+
+  // BLOCKS section: the model and paper space blocks are empty shells
+  add(0, 'SECTION');
+  add(2, 'BLOCKS');
+  for (const record of blockRecords) {
+    add(0, 'BLOCK');
+    add(5, handle());
+    add(330, record.handle);
+    add(100, 'AcDbEntity');
+    if (record.name === '*Paper_Space') add(67, 1);
+    add(8, '0');
+    add(100, 'AcDbBlockBegin');
+    add(2, record.name);
+    add(70, 0);
+    add(10, 0.0);
+    add(20, 0.0);
+    add(30, 0.0);
+    add(3, record.name);
+    add(1, '');
+    add(0, 'ENDBLK');
+    add(5, handle());
+    add(330, record.handle);
+    add(100, 'AcDbEntity');
+    if (record.name === '*Paper_Space') add(67, 1);
+    add(8, '0');
+    add(100, 'AcDbBlockEnd');
+  }
+  add(0, 'ENDSEC');
+
+  // ENTITIES section
+  const modelSpace = blockRecords[0].handle;
+  add(0, 'SECTION');
+  add(2, 'ENTITIES');
+
+  for (const entity of doc.entities) {
+    const type = entity.type === 'polyline' ? 'LWPOLYLINE' : entity.type === 'circle' ? 'CIRCLE' : 'ARC';
+    add(0, type);
+    add(5, handle());
+    add(330, modelSpace);
+    add(100, 'AcDbEntity');
+    add(8, entity.layer);
+
+    if (entity.type === 'polyline') {
+      add(100, 'AcDbPolyline');
+      add(90, entity.vertices.length);
+      add(70, entity.closed ? 1 : 0);
+      add(43, 0.0); // Constant width
+      for (const v of entity.vertices) {
+        add(10, v.x.toFixed(6));
+        add(20, v.y.toFixed(6));
+        if (v.bulge) add(42, v.bulge.toFixed(6));
+      }
+    } else {
+      add(100, 'AcDbCircle');
+      addCircleGeometry(add, entity, true);
+    }
+  }
+
+  add(0, 'ENDSEC');
+
+  // OBJECTS section: root dictionary with the group dictionary AutoCAD expects
+  const groupDictionary = handle();
+  add(0, 'SECTION');
+  add(2, 'OBJECTS');
+  add(0, 'DICTIONARY');
+  add(5, rootDictionary);
+  add(330, 0);
+  add(100, 'AcDbDictionary');
+  add(281, 1);
+  add(3, 'ACAD_GROUP');
+  add(350, groupDictionary);
+  add(0, 'DICTIONARY');
+  add(5, groupDictionary);
+  add(330, rootDictionary);
+  add(100, 'AcDbDictionary');
+  add(281, 1);
+  add(0, 'ENDSEC');
+
+  add(0, 'EOF');
+
+  // The header is written last because $HANDSEED must exceed every handle used
+  const header = createWriter();
+  header.add(0, 'SECTION');
+  header.add(2, 'HEADER');
+  header.add(9, '$ACADVER');
+  header.add(1, 'AC1015'); // AutoCAD 2000 format
+  header.add(9, '$HANDSEED');
+  header.add(5, handle());
+  header.add(9, '$INSUNITS');
+  header.add(70, 4); // Millimeters
+  header.add(9, '$MEASUREMENT');
+  header.add(70, 1); // Metric
+  header.add(9, '$EXTMIN');
+  header.add(10, extents.minX);
+  header.add(20, extents.minY);
+  header.add(30, 0.0);
+  header.add(9, '$EXTMAX');
+  header.add(10, extents.maxX);
+  header.add(20, extents.maxY);
+  header.add(30, 0.0);
+  header.add(0, 'ENDSEC');
+
+  return header.toString() + body.toString();
+}
+
+function withDefaultLayer(layers: DXFLayer[]): DXFLayer[] {
+  return [{ name: '0', color: 7 }, ...layers.filter(layer => layer.name !== '0')];
+}
+
+function addCircleGeometry(
+  add: (code: number, value: string | number) => void,
+  entity: DXFCircle | DXFArc,
+  subclassMarkers: boolean
+) {
+  add(10, entity.cx.toFixed(6));
+  add(20, entity.cy.toFixed(6));
+  add(30, 0);
+  add(40, entity.r.toFixed(6));
+  if (entity.type === 'arc') {
+    if (subclassMarkers) add(100, 'AcDbArc');
+    add(50, entity.startAngle.toFixed(6));
+    add(51, entity.endAngle.toFixed(6));
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Cut-file serialization for generated mazes.
+ *
+ * Pure functions with no DOM access, so they run on the main thread, in the
+ * export Web Worker, or from Node.
+ */
+
+import { DXFVersion, MazeData, Point } from '../types';
+import { boardOf, boardPathD } from './board';
+import { findBoltHoles } from './boltHoles';
+import { createMazeOutline, entryWedgeOptions, generateEntryWedgePaths, offsetClosedPath, EntryWedgeData, MazeOutlines } from './clipperUtils';
+import { DXFEntity, DXFLayer, R12_CHORD_TOLERANCE, svgPathToPolylines, writeDXF } from './dxfWriter';
+
+export type ExportFormat = 'svg' | 'dxf';
+
+// Reports progress in percent along with a short description of the stage
+export type ProgressCallback = (progress: number, stage: string) => void;
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+  deviationBound?: number; // mm; no cut line strays further from its true curve, for cut files
+}
+
+/**
+ * Base filename shared by every export, e.g. orbital_maze_290mm_seed38763
+ */
+export function exportBaseName(data: MazeData): string {
+  return `orbital_maze_${data.config.diameter}mm_seed${data.config.seed}`;
+}
+
+/**
+ * Bound on how far a DXF's cut lines stray from their true curves. R12 cuts
+ * fitted arcs back into chords, which adds its chord tolerance.
+ */
+export function dxfDeviationBound(outlines: MazeOutlines, version: DXFVersion, arcTolerance: number): number {
+  return outlines.deviationBound + (version === 'R12' && arcTolerance > 0 ? R12_CHORD_TOLERANCE : 0);
+}
+
+/**
+ * Runs the Clipper pipeline for a maze: corridor outlines, boundary, holes and the optional wedge.
+ */
+export function buildMazeOutlines(
+  data: MazeData,
+  onProgress?: ProgressCallback
+): { outlines: MazeOutlines; wedgeData: EntryWedgeData | null; boltHoles: Point[] } {
+  const { config, pathD, startPoint } = data;
+  const radius = config.diameter / 2;
+  const boltHoles = findBoltHoles(data);
+
+  // Use Clipper.js for robust path offsetting and boolean union.
+  // A side entry cuts its slot out through the rim; otherwise the maze is closed and entry is via the hole
+  const entryMode = config.entryMode ?? 'hole';
+  const joinType = config.cornerRounding ? 'round' : 'miter';
+  const board = boardOf(config);
+  const outlines = createMazeOutline(
+    pathD,
+    data.entrancePathD,
+    config.corridorWidth,
+    radius,
+    config.holeRadius,
+    joinType,
+    entryMode === 'hole' ? startPoint : undefined, // Entry hole position
+    {
+      onProgress,
+      arcTolerance: config.arcTolerance ?? 0,
+      chordTolerance: config.chordTolerance ?? 0,
+      kerfWidth: config.kerfWidth ?? 0,
+      boltHoles,
+      boltHoleRadius: (config.boltHoleDiameter ?? 0) / 2,
+      boardSides: board.sides,
+      innerRadius: board.innerRadius,
+    }
+  );
+
+  // Generate wedge data if enabled
+  let wedgeData: EntryWedgeData | null = null;
+  if (config.showEntryWedge) {
+    onProgress?.(85, 'Building entry wedge');
+    const wedgeOptions = entryWedgeOptions(config);
+    wedgeData = generateEntryWedgePaths(
+      startPoint.x,
+      startPoint.y,
+      radius,
+      config.corridorWidth,
+      config.holeRadius,
+      wedgeOptions
+    );
+
+    // The wedge is a part, not a cutout: grow it by half a kerf so it still fits its slot.
+    // Its socket and screw hole are cutouts and shrink.
+    const kerf = (config.kerfWidth ?? 0) / 2;
+    if (kerf > 0) {
+      const { tessellation } = wedgeOptions;
+      wedgeData = {
+        wedgePath: offsetClosedPath(wedgeData.wedgePath, kerf, tessellation),
+        socketPath: offsetClosedPath(wedgeData.socketPath, -kerf, tessellation),
+        screwHolePath: offsetClosedPath(wedgeData.screwHolePath, -kerf, tessellation),
+      };
+    }
+    outlines.deviationBound = Math.max(outlines.deviationBound, wedgeOptions.tessellation?.maxDeviation ?? 0);
+  }
+
+  return { outlines, wedgeData, boltHoles };
+}
+
+/**
+ * Builds the outlined (laser cut) SVG document for one sheet. Empty outlines are left out.
+ */
+export function generateOutlinedSVG(
+  outlines: MazeOutlines,
+  diameter: number,
+  wedgeData: EntryWedgeData | null = null,
+  sheetLabel: string = 'MAZE LAYER'
+): string {
+  const padding = 20;
+  const viewBoxSize = diameter + padding * 2;
+  const halfView = viewBoxSize / 2;
+
+  const section = (comment: string, d: string, stroke: string = '#000000') => d ? `
+  <!-- ${comment} -->
+  <path d="${d}" fill="none" stroke="${stroke}" stroke-width="0.1"/>
+` : '';
+
+  const wedgeSections = wedgeData
+    ? section('ENTRY WEDGE (cut from middle layer)', wedgeData.wedgePath, '#FF0000') +
+      section('WEDGE SOCKET (clearance around the wedge)', wedgeData.socketPath, '#FF0000') +
+      section('WEDGE SCREW HOLE (3mm)', wedgeData.screwHolePath, '#FF0000')
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg"
+     width="${diameter}mm"
+     height="${diameter}mm"
+     viewBox="${-halfView} ${-halfView} ${viewBoxSize} ${viewBoxSize}">
+
+  <!-- ${sheetLabel} -->
+${section('Corridor outlines (merged, no overlaps)', outlines.corridors)}${section('Outer boundary', outlines.boundary)}${section('Inner boundary', outlines.innerBoundary)}${section('Center hole', outlines.centerHole)}${section('Entry hole', outlines.entryHole)}${section('Bolt / alignment holes', outlines.boltHoles)}${wedgeSections}
+</svg>`;
+}
+
+/**
+ * Builds the stroked preview SVG (corridors drawn as thick strokes, for viewing).
+ * Mirrors the markup the viewer renders, so it matches a download from the app.
+ */
+export function generateStrokedSVG(data: MazeData, showSolution: boolean = false): string {
+  const { config, pathD, solutionD, startPoint } = data;
+  const padding = 20;
+  const viewBoxSize = config.diameter + padding * 2;
+  const halfView = viewBoxSize / 2;
+  const radius = config.diameter / 2;
+  const lineJoin = config.cornerRounding ? 'round' : 'miter';
+  const entryMode = config.entryMode ?? 'hole';
+  const board = boardOf(config);
+  const fullDisc = board.sides === 0 && board.innerRadius === 0;
+
+  let svg = `<svg width="100%" height="100%" viewBox="${-halfView} ${-halfView} ${viewBoxSize} ${viewBoxSize}" xmlns="http://www.w3.org/2000/svg" class="w-full h-full drop-shadow-2xl">`;
+  svg += fullDisc
+    ? `<circle cx="0" cy="0" r="${radius}" fill="#1f2937" stroke="none"/>`
+    : `<path d="${boardPathD(board)}" fill="#1f2937" fill-rule="evenodd" stroke="none"/>`;
+  svg += `<path d="${pathD}" fill="none" stroke="#f3f4f6" stroke-width="${config.corridorWidth}" stroke-linecap="round" stroke-linejoin="${lineJoin}"/>`;
+  if (entryMode === 'side') {
+    svg += `<path d="${data.entrancePathD}" fill="none" stroke="#f3f4f6" stroke-width="${config.corridorWidth}" stroke-linecap="butt"/>`;
+  } else {
+    svg += `<circle cx="${startPoint.x}" cy="${startPoint.y}" r="${config.holeRadius}" fill="#f3f4f6"/>`;
+  }
+  if (board.innerRadius === 0) {
+    svg += `<circle cx="0" cy="0" r="${config.holeRadius}" fill="#f3f4f6"/>`;
+  }
+  for (const hole of findBoltHoles(data)) {
+    svg += `<circle cx="${hole.x}" cy="${hole.y}" r="${config.boltHoleDiameter / 2}" fill="#f3f4f6"/>`;
+  }
+
+  if (config.showEntryWedge) {
+    const wedgeData = generateEntryWedgePaths(startPoint.x, startPoint.y, radius, config.corridorWidth, config.holeRadius, entryWedgeOptions(config));
+    svg += `<g class="wedge-preview">`;
+    if (wedgeData.socketPath) {
+      svg += `<path d="${wedgeData.socketPath}" fill="none" stroke="#ef4444" stroke-width="0.3"/>`;
+    }
+    svg += `<path d="${wedgeData.wedgePath}" fill="rgba(239, 68, 68, 0.2)" stroke="#ef4444" stroke-width="0.5" stroke-dasharray="3,2"/>`;
+    svg += `<path d="${wedgeData.screwHolePath}" fill="none" stroke="#ef4444" stroke-width="0.3"/>`;
+    svg += `</g>`;
+  }
+
+  if (showSolution) {
+    svg += `<path d="${solutionD}" fill="none" stroke="#ef4444" stroke-width="${config.corridorWidth * 0.4}" stroke-linecap="round" stroke-linejoin="round" opacity="0.9"/>`;
+  }
+
+  return svg + `</svg>`;
+}
+
+/**
+ * Full export pipeline: outline the maze and serialize it as an outlined SVG or DXF.
+ */
+export function exportMazeFile(data: MazeData, format: ExportFormat, onProgress?: ProgressCallback): ExportFile {
+  const { outlines, wedgeData, boltHoles } = buildMazeOutlines(data, onProgress);
+
+  onProgress?.(90, format === 'dxf' ? 'Writing DXF' : 'Writing SVG');
+  const baseName = exportBaseName(data);
+  const file: ExportFile = format === 'dxf'
+    ? {
+        filename: `${baseName}_cut.dxf`,
+        mimeType: 'application/dxf',
+        content: generateDXF(data, outlines, wedgeData, boltHoles),
+      }
+    : {
+        filename: `${baseName}_outlined.svg`,
+        mimeType: 'image/svg+xml;charset=utf-8',
+        content: generateOutlinedSVG(outlines, data.config.diameter, wedgeData),
+      };
+  file.deviationBound = format === 'dxf'
+    ? dxfDeviationBound(outlines, data.config.dxfVersion ?? 'R12', data.config.arcTolerance ?? 0)
+    : outlines.deviationBound;
+
+  onProgress?.(100, 'Done');
+  return file;
+}
+
+export type AssemblySheet = 'base' | 'maze' | 'cover';
+
+// Sheets of a stacked maze, bottom to top
+export const ASSEMBLY_SHEETS: Record<AssemblySheet, { label: string; description: string }> = {
+  base: { label: 'BASE LAYER', description: 'Solid disc under the maze' },
+  maze: { label: 'MAZE LAYER', description: 'Corridors, holes and the optional entry wedge' },
+  cover: { label: 'COVER LAYER', description: 'Top disc with the entry and goal holes' },
+};
+
+/**
+ * Derives every sheet of the stack from the maze layer's outlines.
+ * All sheets share the boundary, an annular board's hole and the bolt holes so they line up.
+ */
+export function buildAssemblySheets(outlines: MazeOutlines): Record<AssemblySheet, MazeOutlines> {
+  return {
+    base: { ...outlines, corridors: '', centerHole: '', entryHole: '' },
+    maze: outlines,
+    cover: { ...outlines, corridors: '' },
+  };
+}
+
+/**
+ * Assembly export: one outlined SVG or DXF per sheet (base, maze, cover).
+ */
+export function exportAssembly(data: MazeData, format: ExportFormat, onProgress?: ProgressCallback): ExportFile[] {
+  const { outlines, wedgeData, boltHoles } = buildMazeOutlines(data, onProgress);
+
+  onProgress?.(90, 'Writing assembly sheets');
+  const baseName = exportBaseName(data);
+  const sheets = buildAssemblySheets(outlines);
+
+  const files = (Object.keys(sheets) as AssemblySheet[]).map((sheet): ExportFile => {
+    // The wedge is cut from the maze layer only
+    const sheetWedge = sheet === 'maze' ? wedgeData : null;
+    return format === 'dxf'
+      ? {
+          filename: `${baseName}_${sheet}.dxf`,
+          mimeType: 'application/dxf',
+          content: generateDXF(data, sheets[sheet], sheetWedge, boltHoles),
+          deviationBound: dxfDeviationBound(outlines, data.config.dxfVersion ?? 'R12', data.config.arcTolerance ?? 0),
+        }
+      : {
+          filename: `${baseName}_${sheet}.svg`,
+          mimeType: 'image/svg+xml;charset=utf-8',
+          content: generateOutlinedSVG(sheets[sheet], data.config.diameter, sheetWedge, ASSEMBLY_SHEETS[sheet].label),
+          deviationBound: outlines.deviationBound,
+        };
+  });
+
+  onProgress?.(100, 'Done');
+  return files;
+}
+
+/**
+ * Generates a DXF file from the outlined paths.
+ * R12 writes every outline as a flattened polyline, exactly as earlier exports did.
+ * R2000 writes the boundary and holes as true circles and keeps any arcs as bulges.
+ */
+export function generateDXF(
+  data: MazeData,
+  outlines: MazeOutlines,
+  wedgeData: EntryWedgeData | null = null,
+  boltHoles: Point[] = []
+): string {
+  const radius = data.config.diameter / 2;
+  const { layers, entities } = buildDXFEntities(data, outlines, wedgeData, boltHoles);
+
+  return writeDXF({
+    layers,
+    entities,
+    extents: { minX: -radius, minY: -radius, maxX: radius, maxY: radius },
+  }, data.config.dxfVersion ?? 'R12');
+}
+
+/**
+ * Layers and entities for one sheet, centered on the origin. Split from
+ * generateDXF so the sheet layout can place several parts in one drawing.
+ */
+export function buildDXFEntities(
+  data: MazeData,
+  outlines: MazeOutlines,
+  wedgeData: EntryWedgeData | null = null,
+  boltHoles: Point[] = []
+): { layers: DXFLayer[]; entities: DXFEntity[] } {
+  const { config, startPoint } = data;
+  const version: DXFVersion = config.dxfVersion ?? 'R12';
+  const radius = config.diameter / 2;
+
+  const layers: DXFLayer[] = [
+    { name: 'CORRIDORS', color: 1 }, // Red
+    { name: 'BOUNDARY', color: 3 },  // Green
+  ];
+  if (wedgeData) {
+    layers.push({ name: 'WEDGE_CUT', color: 1 });  // Red
+    layers.push({ name: 'WEDGE_HOLE', color: 2 }); // Yellow
+  }
+  if (outlines.boltHoles) {
+    layers.push({ name: 'BOLT_HOLES', color: 4 }); // Cyan
+  }
+
+  const entities: DXFEntity[] = [...svgPathToPolylines(outlines.corridors, 'CORRIDORS')];
+
+  if (version === 'R2000') {
+    // Same kerf compensation createMazeOutline applies to the outlined circles
+    const kerf = (config.kerfWidth ?? 0) / 2;
+    const holeRadius = config.holeRadius - kerf;
+    const board = boardOf(config);
+    if (board.sides > 0) {
+      entities.push(...svgPathToPolylines(outlines.boundary, 'BOUNDARY'));
+    } else {
+      entities.push({ type: 'circle', layer: 'BOUNDARY', cx: 0, cy: 0, r: radius + kerf });
+    }
+    if (outlines.innerBoundary) {
+      entities.push({ type: 'circle', layer: 'BOUNDARY', cx: 0, cy: 0, r: board.innerRadius - kerf });
+    }
+    if (outlines.centerHole) {
+      entities.push({ type: 'circle', layer: 'BOUNDARY', cx: 0, cy: 0, r: holeRadius });
+    }
+    if (outlines.entryHole) {
+      entities.push({ type: 'circle', layer: 'BOUNDARY', cx: startPoint.x, cy: startPoint.y, r: holeRadius });
+    }
+    if (outlines.boltHoles) {
+      const boltRadius = config.boltHoleDiameter / 2 - kerf;
+      boltHoles.forEach(h => entities.push({ type: 'circle', layer: 'BOLT_HOLES', cx: h.x, cy: h.y, r: boltRadius }));
+    }
+  } else {
+    entities.push(...svgPathToPolylines(outlines.boundary, 'BOUNDARY'));
+    entities.push(...svgPathToPolylines(outlines.innerBoundary, 'BOUNDARY'));
+    entities.push(...svgPathToPolylines(outlines.centerHole, 'BOUNDARY'));
+    entities.push(...svgPathToPolylines(outlines.entryHole, 'BOUNDARY'));
+    entities.push(...svgPathToPolylines(outlines.boltHoles, 'BOLT_HOLES'));
+  }
+
+  // Add wedge entities if enabled
+  if (wedgeData) {
+    entities.push(...svgPathToPolylines(wedgeData.wedgePath, 'WEDGE_CUT'));
+    entities.push(...svgPathToPolylines(wedgeData.socketPath, 'WEDGE_CUT'));
+    entities.push(...svgPathToPolylines(wedgeData.screwHolePath, 'WEDGE_HOLE'));
+  }
+
+  return { layers, entities };
+}
@@ -0,0 +1,21 @@
+/**
+ * Laser kerf presets for the sheet materials we cut.
+ *
+ * Kerf depends on the machine, lens and power settings, so these are starting
+ * points. Cut a test corridor and measure the puck fit before a production run.
+ */
+
+export interface MaterialPreset {
+  id: string;
+  label: string;
+  kerfWidth: number; // mm
+}
+
+export const MATERIAL_PRESETS: MaterialPreset[] = [
+  { id: 'none', label: 'None', kerfWidth: 0 },
+  { id: 'acrylic3', label: '3mm Acrylic', kerfWidth: 0.2 },
+  { id: 'acrylic5', label: '5mm Acrylic', kerfWidth: 0.25 },
+  { id: 'plywood3', label: '3mm Plywood', kerfWidth: 0.15 },
+  { id: 'mdf3', label: '3mm MDF', kerfWidth: 0.18 },
+  { id: 'felt', label: 'Felt', kerfWidth: 0.3 },
+];
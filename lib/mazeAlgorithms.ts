@@ -0,0 +1,630 @@
+import { GrowingTreeTuning, MazeAlgorithmId, MazeConfig, MazeEdge, MazeNode, Point } from '../types';
+import { PolarGrid, buildAdjacency } from './polarGrid';
+
+/**
+ * One step of carving, reported for generation playback (node ids).
+ * - carve: a passage opened from `from` to `to`. `branch` marks a Growing Tree
+ *   step that grew from a random active cell instead of the newest one.
+ * - backtrack: a Growing Tree cell with no unvisited neighbours left the active list.
+ * - braid: a passage opened afterwards to make a loop.
+ */
+export type CarveStep =
+  | { type: 'carve'; from: string; to: string; branch?: boolean }
+  | { type: 'backtrack'; node: string }
+  | { type: 'braid'; from: string; to: string };
+
+/**
+ * A carving strategy. It receives the untouched grid and the seeded PRNG and
+ * returns the passages of a spanning tree over all nodes. generateMaze orients
+ * the `parent` pointers towards the center afterwards, so strategies only need
+ * to produce edges. `onStep`, when given, receives every passage as it is opened.
+ */
+export interface MazeAlgorithm {
+  id: MazeAlgorithmId;
+  label: string;
+  description: string;
+  carve: (grid: PolarGrid, random: () => number, config: MazeConfig, onStep?: (step: CarveStep) => void) => MazeEdge[];
+}
+
+const TAU = 2 * Math.PI;
+
+// Probability that Eller's joins two sideways neighbours of different sets
+const ELLER_JOIN_PROB = 0.5;
+// Probability that Eller's opens an extra inward passage once a set is already connected
+const ELLER_EXTRA_DROP_PROB = 0.3;
+
+const getEdgeKey = (n1: MazeNode, n2: MazeNode) => [n1.id, n2.id].sort().join('-');
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+// Union-find keyed by string ids. union() returns false if both were already joined.
+const createDisjointSet = () => {
+  const parent = new Map<string, string>();
+
+  const find = (id: string): string => {
+    const p = parent.get(id);
+    if (p === undefined || p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+
+  const union = (a: string, b: string): boolean => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return false;
+    parent.set(rootA, rootB);
+    return true;
+  };
+
+  return { find, union };
+};
+
+const listWalls = (grid: PolarGrid, adjacency: Map<string, MazeNode[]>): MazeEdge[] => {
+  const walls: MazeEdge[] = [];
+  const seen = new Set<string>();
+  for (const node of grid.nodes) {
+    for (const neighbor of adjacency.get(node.id)!) {
+      const key = getEdgeKey(node, neighbor);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      walls.push({ p1: node, p2: neighbor });
+    }
+  }
+  return walls;
+};
+
+// --- Growing Tree ---
+// Weighted backtracker with momentum. The only strategy tuned by `difficulty` (or `tuning`).
+
+/**
+ * The Growing Tree weights a config carves with: its own `tuning`, or the
+ * built-in curve for its difficulty.
+ */
+export const growingTreeParams = (config: MazeConfig): GrowingTreeTuning =>
+  config.tuning ?? difficultyTuning(config.difficulty);
+
+/**
+ * The Growing Tree weights for a difficulty level (1-5).
+ */
+export const difficultyTuning = (difficulty: number): GrowingTreeTuning => {
+  // Branch Probability:
+  // Low Diff: Very low branch prob (0.02) -> Long single snake.
+  // High Diff: High branch prob (0.40) -> Many starts to create deep confusion.
+  const branchProb = 0.02 + (difficulty * 0.08); // Range: 0.1 to 0.42
+
+  // Inertia (Momentum):
+  // High Inertia = Smooth curves.
+  // We reduce inertia on high difficulty to allow more "random" turns,
+  // preventing the spiral trap.
+  const inertiaWeight = 500 - (difficulty * 60); // Range: 440 down to 200
+
+  // Inward Bonus:
+  // Encourages weaving back towards center (hooks/loops).
+  const inwardBonus = 1200;
+
+  // Slight resistance to changing direction
+  const changePenalty = 50;
+
+  // High Difficulty: Punish rushing "OUT" too fast.
+  // We want to force it to wind around rings more.
+  const outPenalty = difficulty > 3 ? 40 : 0; // Less penalty than before to allow SOME branches to escape
+
+  return { branchProb, inertiaWeight, inwardBonus, changePenalty, outPenalty };
+};
+
+const carveGrowingTree = (grid: PolarGrid, random: () => number, config: MazeConfig, onStep?: (step: CarveStep) => void): MazeEdge[] => {
+  const { centerNode, getNeighbors } = grid;
+  const { branchProb, inertiaWeight, inwardBonus, changePenalty, outPenalty } = growingTreeParams(config);
+
+  const active: MazeNode[] = [];
+  centerNode.visited = true;
+  active.push(centerNode);
+
+  const edges: MazeEdge[] = [];
+  const entryDirMap = new Map<string, string>();
+
+  while (active.length > 0) {
+    let currentIndex: number;
+    let branch = false;
+
+    // Selection Strategy (Growing Tree):
+    // "Newest" = Recursive Backtracker = Long Paths.
+    // "Random" = Prim's = Branching.
+    if (random() < branchProb) {
+       currentIndex = Math.floor(random() * active.length);
+       branch = true;
+    } else {
+       currentIndex = active.length - 1;
+    }
+
+    const current = active[currentIndex];
+    const neighbors = getNeighbors(current).filter(n => !n.visited);
+
+    if (neighbors.length > 0) {
+      // Weighted Random Selection
+      const weightedNeighbors = neighbors.map(n => {
+        let weight = 100.0;
+
+        // Determine direction relative to Current
+        let dir = "";
+        if (n.r > current.r) dir = "OUT";
+        else if (n.r < current.r) dir = "IN";
+        else dir = "SIDE";
+
+        const prevDir = entryDirMap.get(current.id);
+
+        if (prevDir) {
+            if (prevDir === dir) {
+                // INERTIA BONUS: Massive reward for staying the course.
+                weight += inertiaWeight;
+            } else {
+                // CHANGE PENALTY: Resistance to changing direction
+                weight -= changePenalty;
+            }
+        }
+
+        // SPECIAL MOVE: INWARD HOOK
+        if (dir === "IN") {
+            weight += inwardBonus;
+        }
+
+        // Punish rushing "OUT" too fast, to wind around rings more
+        if (dir === "OUT") {
+             weight -= outPenalty;
+        }
+
+        // Random jitter
+        weight += random() * 50.0;
+
+        // Ensure positive
+        return { node: n, dir, weight: Math.max(1, weight) };
+      });
+
+      // Sort by weight desc
+      weightedNeighbors.sort((a, b) => b.weight - a.weight);
+
+      // Pick best
+      const chosen = weightedNeighbors[0];
+      const neighbor = chosen.node;
+
+      neighbor.visited = true;
+      neighbor.parent = current;
+      edges.push({ p1: current, p2: neighbor });
+      entryDirMap.set(neighbor.id, chosen.dir);
+      onStep?.({ type: 'carve', from: current.id, to: neighbor.id, branch });
+
+      active.push(neighbor);
+
+    } else {
+      active.splice(currentIndex, 1);
+      onStep?.({ type: 'backtrack', node: current.id });
+    }
+  }
+
+  return edges;
+};
+
+// --- Kruskal ---
+// Opens walls in random order whenever they join two separate regions.
+// Produces many short dead ends and an even, "noisy" texture.
+const carveKruskal = (grid: PolarGrid, random: () => number, _config: MazeConfig, onStep?: (step: CarveStep) => void): MazeEdge[] => {
+  const adjacency = buildAdjacency(grid);
+  const walls = shuffle(listWalls(grid, adjacency), random);
+  const sets = createDisjointSet();
+
+  const edges = walls.filter(wall => sets.union(wall.p1.id, wall.p2.id));
+  edges.forEach(edge => onStep?.({ type: 'carve', from: edge.p1.id, to: edge.p2.id }));
+  return edges;
+};
+
+// --- Wilson ---
+// Loop-erased random walks towards the growing tree. Samples uniformly from
+// all spanning trees, so it has no directional bias at all.
+const carveWilson = (grid: PolarGrid, random: () => number, _config: MazeConfig, onStep?: (step: CarveStep) => void): MazeEdge[] => {
+  const adjacency = buildAdjacency(grid);
+  const edges: MazeEdge[] = [];
+  const inTree = new Set<string>([grid.centerNode.id]);
+
+  for (const start of shuffle([...grid.nodes], random)) {
+    if (inTree.has(start.id)) continue;
+
+    // Walk until we hit the tree. Overwriting the exit of a revisited node erases the loop.
+    const exits = new Map<string, MazeNode>();
+    let walker = start;
+    while (!inTree.has(walker.id)) {
+      const options = adjacency.get(walker.id)!;
+      const step = options[Math.floor(random() * options.length)];
+      exits.set(walker.id, step);
+      walker = step;
+    }
+
+    // Replay the loop-erased walk and add it to the tree
+    walker = start;
+    while (!inTree.has(walker.id)) {
+      const step = exits.get(walker.id)!;
+      edges.push({ p1: step, p2: walker });
+      onStep?.({ type: 'carve', from: step.id, to: walker.id });
+      inTree.add(walker.id);
+      walker = step;
+    }
+  }
+
+  return edges;
+};
+
+// --- Eller (by ring) ---
+// Treats each ring as a row, working from the rim inwards. Sideways passages are
+// joined at random, then every set drops at least one passage to the next ring.
+// The center node plays the role of the final row.
+const carveEller = (grid: PolarGrid, random: () => number, _config: MazeConfig, onStep?: (step: CarveStep) => void): MazeEdge[] => {
+  const adjacency = buildAdjacency(grid);
+  const edges: MazeEdge[] = [];
+  const sets = createDisjointSet();
+
+  for (let r = grid.numRings; r >= 1; r--) {
+    const ring = grid.ringNodes[r];
+
+    // 1. Sideways joins
+    if (ring.length > 1) {
+      for (let c = 0; c < ring.length; c++) {
+        const a = ring[c];
+        const b = ring[(c + 1) % ring.length];
+        // Neighbours in the list may be apart where a polygon board trims the ring
+        if (random() < ELLER_JOIN_PROB && adjacency.get(a.id)!.includes(b) && sets.union(a.id, b.id)) {
+          edges.push({ p1: a, p2: b });
+          onStep?.({ type: 'carve', from: a.id, to: b.id });
+        }
+      }
+    }
+
+    // 2. Group the ring's cells by set
+    const groups = new Map<string, MazeNode[]>();
+    for (const cell of ring) {
+      const root = sets.find(cell.id);
+      if (!groups.has(root)) groups.set(root, []);
+      groups.get(root)!.push(cell);
+    }
+
+    // 3. Every set connects inward at least once
+    groups.forEach(cells => {
+      const links: MazeEdge[] = [];
+      for (const cell of cells) {
+        for (const inner of adjacency.get(cell.id)!) {
+          if (inner.r < r) links.push({ p1: inner, p2: cell });
+        }
+      }
+
+      let connected = false;
+      for (const link of shuffle(links, random)) {
+        if (connected && random() >= ELLER_EXTRA_DROP_PROB) continue;
+        // A failed union means the set already reaches this inner cell
+        if (sets.union(link.p1.id, link.p2.id)) {
+          edges.push(link);
+          onStep?.({ type: 'carve', from: link.p1.id, to: link.p2.id });
+        }
+        connected = true;
+      }
+    });
+  }
+
+  return edges;
+};
+
+// --- Recursive Division (polar) ---
+// Splits the disc into ring bands or angular sectors, leaving one passage across
+// every cut, then recurses. Produces long straight walls and a blocky texture.
+interface Region {
+  cells: MazeNode[];
+  start: number; // sector start angle
+  span: number;  // sector angular width
+}
+
+const angleFrom = (theta: number, start: number) => ((theta - start) % TAU + TAU) % TAU;
+
+const carveRecursiveDivision = (grid: PolarGrid, random: () => number, _config: MazeConfig, onStep?: (step: CarveStep) => void): MazeEdge[] => {
+  const adjacency = buildAdjacency(grid);
+  const edges: MazeEdge[] = [];
+
+  // Splits a set of cells into its connected pieces (using only links inside the set)
+  const connectedPieces = (cells: MazeNode[]): MazeNode[][] => {
+    const members = new Set(cells.map(c => c.id));
+    const seen = new Set<string>();
+    const pieces: MazeNode[][] = [];
+
+    for (const cell of cells) {
+      if (seen.has(cell.id)) continue;
+      const piece: MazeNode[] = [];
+      const queue = [cell];
+      seen.add(cell.id);
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        piece.push(current);
+        for (const n of adjacency.get(current.id)!) {
+          if (members.has(n.id) && !seen.has(n.id)) {
+            seen.add(n.id);
+            queue.push(n);
+          }
+        }
+      }
+      pieces.push(piece);
+    }
+
+    return pieces;
+  };
+
+  const stack: Region[] = [{ cells: grid.nodes, start: 0, span: TAU }];
+
+  while (stack.length > 0) {
+    const region = stack.pop()!;
+    if (region.cells.length < 2) continue;
+
+    const rMin = Math.min(...region.cells.map(c => c.r));
+    const rMax = Math.max(...region.cells.map(c => c.r));
+
+    // Prefer cutting across the longer dimension, like rectangular division
+    const radialExtent = (rMax - rMin + 1) * grid.stepSize;
+    const arcExtent = region.span * ((rMin + rMax) / 2) * grid.stepSize;
+    const splitRings = rMax > rMin && random() < (radialExtent >= arcExtent ? 0.8 : 0.2);
+
+    let halves: Region[];
+    if (splitRings) {
+      const cut = rMin + Math.floor(random() * (rMax - rMin));
+      halves = [
+        { cells: region.cells.filter(c => c.r <= cut), start: region.start, span: region.span },
+        { cells: region.cells.filter(c => c.r > cut), start: region.start, span: region.span },
+      ];
+    } else {
+      const sorted = [...region.cells].sort(
+        (a, b) => angleFrom(a.theta, region.start) - angleFrom(b.theta, region.start)
+      );
+      const n = sorted.length;
+      const k = Math.min(n - 1, Math.max(1, Math.round(n * (0.3 + 0.4 * random()))));
+      const cutAngle = (angleFrom(sorted[k - 1].theta, region.start) + angleFrom(sorted[k].theta, region.start)) / 2;
+      halves = [
+        { cells: sorted.slice(0, k), start: region.start, span: cutAngle },
+        { cells: sorted.slice(k), start: region.start + cutAngle, span: region.span - cutAngle },
+      ];
+    }
+
+    // Each half may fall apart into several pieces; link the pieces with one passage per tree edge
+    const pieces: Region[] = [];
+    halves.forEach(half => {
+      connectedPieces(half.cells).forEach(cells => pieces.push({ cells, start: half.start, span: half.span }));
+    });
+
+    const pieceOf = new Map<string, number>();
+    pieces.forEach((piece, i) => piece.cells.forEach(c => pieceOf.set(c.id, i)));
+
+    const crossings: MazeEdge[] = [];
+    const seen = new Set<string>();
+    for (const cell of region.cells) {
+      for (const n of adjacency.get(cell.id)!) {
+        const a = pieceOf.get(cell.id);
+        const b = pieceOf.get(n.id);
+        if (b === undefined || a === b) continue;
+        const key = getEdgeKey(cell, n);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        crossings.push({ p1: cell, p2: n });
+      }
+    }
+
+    const linked = createDisjointSet();
+    for (const crossing of shuffle(crossings, random)) {
+      if (linked.union(String(pieceOf.get(crossing.p1.id)), String(pieceOf.get(crossing.p2.id)))) {
+        edges.push(crossing);
+        onStep?.({ type: 'carve', from: crossing.p1.id, to: crossing.p2.id });
+      }
+    }
+
+    stack.push(...pieces);
+  }
+
+  return edges;
+};
+
+export const MAZE_ALGORITHMS: Record<MazeAlgorithmId, MazeAlgorithm> = {
+  growingTree: {
+    id: 'growingTree',
+    label: 'Growing Tree',
+    description: 'Long winding paths with momentum. Tuned by difficulty or custom weights.',
+    carve: carveGrowingTree,
+  },
+  kruskal: {
+    id: 'kruskal',
+    label: 'Kruskal',
+    description: 'Evenly spread short branches and many small dead ends.',
+    carve: carveKruskal,
+  },
+  wilson: {
+    id: 'wilson',
+    label: "Wilson's",
+    description: 'Uniform spanning tree with no directional bias.',
+    carve: carveWilson,
+  },
+  eller: {
+    id: 'eller',
+    label: "Eller's (by ring)",
+    description: 'Ring-by-ring sets; long arcs broken by frequent spokes.',
+    carve: carveEller,
+  },
+  recursiveDivision: {
+    id: 'recursiveDivision',
+    label: 'Recursive Division',
+    description: 'Nested bands and sectors with long straight walls.',
+    carve: carveRecursiveDivision,
+  },
+};
+
+/**
+ * Opens extra walls at a fraction of the dead ends, turning the tree into a
+ * braided maze with loops. Dead ends are preferably joined to other dead ends,
+ * which removes two at once. The center (goal) is never treated as a dead end.
+ * Returns only the added passages.
+ */
+export const braidMaze = (
+  grid: PolarGrid,
+  edges: MazeEdge[],
+  fraction: number,
+  random: () => number
+): MazeEdge[] => {
+  if (fraction <= 0) return [];
+
+  const adjacency = buildAdjacency(grid);
+  const open = new Set(edges.map(e => getEdgeKey(e.p1, e.p2)));
+  const degree = new Map<string, number>();
+  grid.nodes.forEach(n => degree.set(n.id, 0));
+  edges.forEach(e => {
+    degree.set(e.p1.id, degree.get(e.p1.id)! + 1);
+    degree.set(e.p2.id, degree.get(e.p2.id)! + 1);
+  });
+
+  const deadEnds = shuffle(
+    grid.nodes.filter(n => n !== grid.centerNode && degree.get(n.id) === 1),
+    random
+  );
+  const target = Math.round(Math.min(1, fraction) * deadEnds.length);
+  const added: MazeEdge[] = [];
+
+  for (const node of deadEnds.slice(0, target)) {
+    // An earlier link may already have fixed this one
+    if (degree.get(node.id) !== 1) continue;
+
+    const closed = adjacency.get(node.id)!.filter(n => !open.has(getEdgeKey(node, n)));
+    if (closed.length === 0) continue;
+
+    const deadNeighbors = closed.filter(n => n !== grid.centerNode && degree.get(n.id) === 1);
+    const pool = deadNeighbors.length > 0 ? deadNeighbors : closed;
+    const other = pool[Math.floor(random() * pool.length)];
+
+    open.add(getEdgeKey(node, other));
+    degree.set(node.id, degree.get(node.id)! + 1);
+    degree.set(other.id, degree.get(other.id)! + 1);
+    added.push({ p1: node, p2: other });
+  }
+
+  return added;
+};
+
+/**
+ * Where a passage from `cell` into the goal ends: the center, or on an annular
+ * board `goalRadius` out along the cell's direction (see goalRadius in lib/board.ts).
+ */
+export const goalPoint = (cell: MazeNode, goalRadius: number): Point => {
+  if (goalRadius <= 0) return { x: 0, y: 0 };
+  const scale = goalRadius / Math.hypot(cell.x, cell.y);
+  return { x: cell.x * scale, y: cell.y * scale };
+};
+
+// A passage's end at `node`, with the goal's end moved to its goal point
+const passageEnd = (node: MazeNode, other: MazeNode, goalRadius: number): Point =>
+  node.r === 0 ? goalPoint(other, goalRadius) : node;
+
+/**
+ * SVG path data for one passage: a line for spokes, an arc along a ring.
+ */
+export const passagePathD = (a: MazeNode, b: MazeNode, stepSize: number, goalRadius: number = 0): string => {
+  if (a.r !== b.r) {
+    const from = passageEnd(a, b, goalRadius);
+    const to = passageEnd(b, a, goalRadius);
+    return `M ${from.x} ${from.y} L ${to.x} ${to.y}`;
+  }
+  let dTheta = b.theta - a.theta;
+  while (dTheta > Math.PI) dTheta -= TAU;
+  while (dTheta < -Math.PI) dTheta += TAU;
+  const r = a.r * stepSize;
+  return `M ${a.x} ${a.y} A ${r} ${r} 0 0 ${dTheta > 0 ? 1 : 0} ${b.x} ${b.y}`;
+};
+
+/**
+ * Length of a passage in mm: straight for spokes, arc length along a ring.
+ */
+export const edgeLength = (a: MazeNode, b: MazeNode, stepSize: number, goalRadius: number = 0): number => {
+  if (a.r !== b.r) {
+    const from = passageEnd(a, b, goalRadius);
+    const to = passageEnd(b, a, goalRadius);
+    return Math.hypot(to.x - from.x, to.y - from.y);
+  }
+  let dTheta = b.theta - a.theta;
+  while (dTheta > Math.PI) dTheta -= TAU;
+  while (dTheta < -Math.PI) dTheta += TAU;
+  return Math.abs(dTheta) * a.r * stepSize;
+};
+
+/**
+ * Points every node's `parent` at the next node on its shortest route (in mm)
+ * to the center, using Dijkstra over the carved passages. On a spanning tree
+ * this is simply the unique tree path; on a braided maze it is the route a
+ * solver would take, so start scoring and the solution path work unchanged.
+ */
+export const orientTree = (grid: PolarGrid, edges: MazeEdge[]): void => {
+  const adjacency = new Map<string, MazeNode[]>();
+  edges.forEach(e => {
+      if (!adjacency.has(e.p1.id)) adjacency.set(e.p1.id, []);
+      if (!adjacency.has(e.p2.id)) adjacency.set(e.p2.id, []);
+      adjacency.get(e.p1.id)!.push(e.p2);
+      adjacency.get(e.p2.id)!.push(e.p1);
+  });
+
+  const distance = new Map<string, number>();
+  grid.nodes.forEach(n => {
+    n.visited = false;
+    n.parent = null;
+    distance.set(n.id, Infinity);
+  });
+  distance.set(grid.centerNode.id, 0);
+
+  // Binary min-heap of [distance, node]
+  const heap: [number, MazeNode][] = [[0, grid.centerNode]];
+  const push = (item: [number, MazeNode]) => {
+    heap.push(item);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const up = (i - 1) >> 1;
+      if (heap[up][0] <= heap[i][0]) break;
+      [heap[up], heap[i]] = [heap[i], heap[up]];
+      i = up;
+    }
+  };
+  const pop = (): [number, MazeNode] => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      while (true) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < heap.length && heap[l][0] < heap[smallest][0]) smallest = l;
+        if (r < heap.length && heap[r][0] < heap[smallest][0]) smallest = r;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  while (heap.length > 0) {
+    const [dist, current] = pop();
+    if (current.visited) continue;
+    current.visited = true;
+
+    for (const n of adjacency.get(current.id) || []) {
+      const candidate = dist + edgeLength(current, n, grid.stepSize, grid.goalRadius);
+      if (candidate < distance.get(n.id)!) {
+        distance.set(n.id, candidate);
+        n.parent = current;
+        push([candidate, n]);
+      }
+    }
+  }
+};
@@ -1,264 +1,58 @@
-import { MazeConfig, MazeData, MazeNode, Point } from '../types';
-
-export const generateMaze = (config: MazeConfig): MazeData => {
-  const { diameter, wallWidth, corridorWidth, difficulty, seed } = config;
-
-  // PRNG
-  let seedValue = seed;
-  const random = () => {
-    const x = Math.sin(seedValue++) * 10000;
-    return x - Math.floor(x);
-  };
-
-  const radius = diameter / 2;
-  const stepSize = corridorWidth + wallWidth;
-  
-  // Calculate rings
-  const margin = wallWidth;
-  const usableRadius = radius - margin - (corridorWidth / 2);
-  const numRings = Math.floor(usableRadius / stepSize);
-
-  const nodes: MazeNode[] = [];
-  const nodesMap = new Map<string, MazeNode>();
+import { EntryCandidate, MazeConfig, MazeData, MazeNode, Point } from '../types';
+import { CarveStep, MAZE_ALGORITHMS, braidMaze, goalPoint, orientTree } from './mazeAlgorithms';
+import { buildPolarGrid } from './polarGrid';
+import { boardOf, rimDistance } from './board';
+import { SCORE_WEIGHTS, RouteScore, scoreRoute } from './mazeStats';
+import { createRandom } from './random';
+
+// Entry points offered in MazeData.entryCandidates
+const ENTRY_CANDIDATES = 5;
+
+/**
+ * Builds a maze from its config. `onStep` receives every carving step in order,
+ * for generation playback; it doesn't change the result.
+ */
+export const generateMaze = (config: MazeConfig, onStep?: (step: CarveStep) => void): MazeData => {
+  const { seed } = config;
+
+  // PRNG (versioned so older seeds keep regenerating identically)
+  const random = createRandom(seed, config.rngVersion);
 
   // 1. Create Grid (Polar Graph)
-  const centerNode: MazeNode = {
-    id: "0,0",
-    r: 0,
-    theta: 0,
-    x: 0,
-    y: 0,
-    visited: false,
-    parent: null
-  };
-  nodes.push(centerNode);
-  nodesMap.set(centerNode.id, centerNode);
-
-  const ringNodes: MazeNode[][] = [[centerNode]];
-
-  for (let r = 1; r <= numRings; r++) {
-    const currentRadius = r * stepSize;
-    const circumference = 2 * Math.PI * currentRadius;
-    const numCells = Math.round(circumference / stepSize);
-    
-    const ringRow: MazeNode[] = [];
-    for (let c = 0; c < numCells; c++) {
-      const theta = (c / numCells) * 2 * Math.PI;
-      const x = currentRadius * Math.cos(theta);
-      const y = currentRadius * Math.sin(theta);
-      
-      const node: MazeNode = {
-        id: `${r},${c}`,
-        r,
-        theta,
-        x,
-        y,
-        visited: false,
-        parent: null
-      };
-      
-      nodes.push(node);
-      nodesMap.set(node.id, node);
-      ringRow.push(node);
-    }
-    ringNodes.push(ringRow);
-  }
-
-  // Helper: Get strictly adjacent neighbors
-  const getNeighbors = (node: MazeNode): MazeNode[] => {
-    const n: MazeNode[] = [];
-    
-    if (node.r === 0) {
-      if (ringNodes[1]) return [...ringNodes[1]];
-      return [];
-    }
-
-    const myRing = ringNodes[node.r];
-    const myIndex = parseInt(node.id.split(',')[1]);
-    const myCount = myRing.length;
-
-    // 1. Sideways (CW/CCW)
-    const cwIndex = (myIndex + 1) % myCount;
-    const ccwIndex = (myIndex - 1 + myCount) % myCount;
-    n.push(myRing[cwIndex]);
-    n.push(myRing[ccwIndex]);
-
-    // 2. Inward
-    if (node.r === 1) {
-      n.push(centerNode);
-    } else {
-      const innerRing = ringNodes[node.r - 1];
-      const innerCount = innerRing.length;
-      const ratio = innerCount / myCount;
-      const innerIndex = Math.round(myIndex * ratio) % innerCount;
-      n.push(innerRing[innerIndex]);
-    }
-
-    // 3. Outward
-    if (node.r < numRings) {
-      const outerRing = ringNodes[node.r + 1];
-      const outerCount = outerRing.length;
-      const ratio = outerCount / myCount;
-      const outerIndex = Math.round(myIndex * ratio) % outerCount;
-      n.push(outerRing[outerIndex]);
-    }
-
-    return n;
-  };
-
-  // 2. Generate Maze: Growing Tree Algorithm
-  
-  const active: MazeNode[] = [];
-  centerNode.visited = true;
-  active.push(centerNode);
-
-  const edges: {p1: MazeNode, p2: MazeNode}[] = [];
-  const entryDirMap = new Map<string, string>();
-  
-  // --- DIFFICULTY PARAMETERS ---
-  
-  // Branch Probability:
-  // Low Diff: Very low branch prob (0.02) -> Long single snake.
-  // High Diff: High branch prob (0.40) -> Many starts to create deep confusion.
-  const branchProb = 0.02 + (config.difficulty * 0.08); // Range: 0.1 to 0.42
-
-  // Inertia (Momentum):
-  // High Inertia = Smooth curves.
-  // We reduce inertia on high difficulty to allow more "random" turns,
-  // preventing the spiral trap.
-  const inertiaWeight = 500 - (config.difficulty * 60); // Range: 440 down to 200
-
-  // Inward Bonus:
-  // Encourages weaving back towards center (hooks/loops).
-  const inwardBonus = 1200;
-
-  while (active.length > 0) {
-    let currentIndex: number;
-
-    // Selection Strategy (Growing Tree):
-    // "Newest" = Recursive Backtracker = Long Paths.
-    // "Random" = Prim's = Branching.
-    if (random() < branchProb) {
-       currentIndex = Math.floor(random() * active.length);
-    } else {
-       currentIndex = active.length - 1;
-    }
-
-    const current = active[currentIndex];
-    const neighbors = getNeighbors(current).filter(n => !n.visited);
-
-    if (neighbors.length > 0) {
-      // Weighted Random Selection
-      const weightedNeighbors = neighbors.map(n => {
-        let weight = 100.0;
-        
-        // Determine direction relative to Current
-        let dir = "";
-        if (n.r > current.r) dir = "OUT";
-        else if (n.r < current.r) dir = "IN";
-        else dir = "SIDE";
-
-        const prevDir = entryDirMap.get(current.id);
-
-        if (prevDir) {
-            if (prevDir === dir) {
-                // INERTIA BONUS: Massive reward for staying the course.
-                weight += inertiaWeight;
-            } else {
-                // CHANGE PENALTY: Slight resistance to changing direction 
-                weight -= 50; 
-            }
-        }
-
-        // SPECIAL MOVE: INWARD HOOK
-        if (dir === "IN") {
-            weight += inwardBonus;
-        }
-
-        // High Difficulty: Punish rushing "OUT" too fast.
-        // We want to force it to wind around rings more.
-        if (config.difficulty > 3 && dir === "OUT") {
-             weight -= 40; // Less penalty than before to allow SOME branches to escape
-        }
-
-        // Random jitter
-        weight += random() * 50.0;
-
-        // Ensure positive
-        return { node: n, dir, weight: Math.max(1, weight) };
-      });
-
-      // Sort by weight desc
-      weightedNeighbors.sort((a, b) => b.weight - a.weight);
-      
-      // Pick best
-      const chosen = weightedNeighbors[0];
-      const neighbor = chosen.node;
-
-      neighbor.visited = true;
-      neighbor.parent = current;
-      edges.push({ p1: current, p2: neighbor });
-      entryDirMap.set(neighbor.id, chosen.dir);
-
-      active.push(neighbor);
-
-    } else {
-      active.splice(currentIndex, 1);
-    }
-  }
-
-  // 3. Find Hardest Start Point and Rotate Maze to Put Entry at Top
-  const outerNodes = ringNodes[numRings];
-  let startNode = outerNodes[0];
-  let maxScore = -Infinity;
-
-  for (const node of outerNodes) {
-      let score = 0;
-      let curr: MazeNode | null = node;
-
-      let prevRadialDir = 0;
-      let inflections = 0;
-      let length = 0;
-      let totalRotation = 0;
-
-      while (curr.parent) {
-          length++;
-          const next = curr.parent;
-
-          // Radial Inflections
-          let currentRadialDir = 0;
-          if (next.r < curr.r) currentRadialDir = 1;
-          else if (next.r > curr.r) currentRadialDir = -1;
-
-          if (currentRadialDir !== 0) {
-              if (prevRadialDir !== 0 && currentRadialDir !== prevRadialDir) {
-                  inflections++;
-              }
-              prevRadialDir = currentRadialDir;
-          }
-
-          // Rotation
-          let dTheta = next.theta - curr.theta;
-          while (dTheta > Math.PI) dTheta -= 2 * Math.PI;
-          while (dTheta < -Math.PI) dTheta += 2 * Math.PI;
-          totalRotation += Math.abs(dTheta);
-
-          curr = next;
-      }
-
-      // Difficulty Score:
-      // High Difficulty = Long paths AND Many switches.
-      score = (length * 1) + (inflections * 200) + (totalRotation * 10);
-
-      if (score > maxScore) {
-          maxScore = score;
-          startNode = node;
-      }
-  }
-
-  // Rotate entire maze to put the entry point at top (theta = -π/2 in SVG coords)
-  const targetTheta = -Math.PI / 2;
-  const rotationAngle = targetTheta - startNode.theta;
+  const grid = buildPolarGrid(config);
+  const { nodes, nodesMap, rimNodes, stepSize, goalRadius } = grid;
+  const board = boardOf(config);
+
+  // 2. Carve the spanning tree with the selected strategy
+  const algorithm = MAZE_ALGORITHMS[config.algorithm] ?? MAZE_ALGORITHMS.growingTree;
+  const edges = algorithm.carve(grid, random, config, onStep);
+
+  // Optional braiding: open walls at a share of the dead ends to create loops
+  const loops = braidMaze(grid, edges, (config.braid ?? 0) / 100, random);
+  loops.forEach(e => onStep?.({ type: 'braid', from: e.p1.id, to: e.p2.id }));
+  edges.push(...loops);
+
+  // Parents point along the shortest route to the center (the tree path when unbraided)
+  orientTree(grid, edges);
+
+  // 3. Rank the rim nodes by start score and take the requested one (the hardest by default).
+  // The sort is stable, so equal scores keep ring order and rank 1 matches older mazes.
+  const weights = config.scoreWeights ?? SCORE_WEIGHTS;
+  const ranked: { node: MazeNode; route: RouteScore }[] = rimNodes
+      .map(node => ({ node, route: scoreRoute(node, weights) }))
+      .sort((a, b) => b.route.score - a.route.score);
+  const rank = Math.min(Math.max(1, Math.round(config.entryRank ?? 1)), ranked.length);
+  const startNode = ranked[rank - 1].node;
+
+  // Rotate entire maze to put the entry point at the chosen angle
+  // (clockwise from 12 o'clock; theta = -π/2 in SVG coords is the top).
+  // A polygon board only turns by whole sides, so it keeps its outline and the
+  // entry lands on the nearest matching spot.
+  const targetTheta = -Math.PI / 2 + ((config.entryAngle ?? 0) * Math.PI) / 180;
+  const sideTurn = (2 * Math.PI) / board.sides;
+  const rotationAngle = board.sides > 0
+    ? Math.round((targetTheta - startNode.theta) / sideTurn) * sideTurn
+    : targetTheta - startNode.theta;
   const cosR = Math.cos(rotationAngle);
   const sinR = Math.sin(rotationAngle);
 
@@ -280,7 +74,7 @@ export const generateMaze = (config: MazeConfig): MazeData => {
   // 4. Generate SVG Paths (Stitched for Smoothness)
   // Instead of drawing individual segments, we build a graph and trace continuous lines.
   
-  // Build adjacency graph for the MST
+  // Build adjacency graph for the carved passages
   const adjacency = new Map<string, MazeNode[]>();
   edges.forEach(e => {
       if (!adjacency.has(e.p1.id)) adjacency.set(e.p1.id, []);
@@ -328,9 +122,10 @@ export const generateMaze = (config: MazeConfig): MazeData => {
   
   // Let's find all "Segments". A segment is a path between two junctions (or leaf/root).
   // 1. Identify Junctions (degree != 2)
+  // On an annular board the goal is the hole, not a point, so paths never run through it
   const junctions: MazeNode[] = [];
   adjacency.forEach((neighbors, id) => {
-      if (neighbors.length !== 2) {
+      if (neighbors.length !== 2 || (goalRadius > 0 && id === grid.centerNode.id)) {
           junctions.push(nodesMap.get(id)!);
       }
   });
@@ -344,8 +139,9 @@ export const generateMaze = (config: MazeConfig): MazeData => {
           const edgeKey = getEdgeKey(j, n);
           if (drawnEdges.has(edgeKey)) return;
 
-          // Start a new path segment
-          let segmentD = `M ${j.x.toFixed(2)} ${j.y.toFixed(2)}`;
+          // Start a new path segment (passages into the goal end at its goal point)
+          const from = j.r === 0 ? goalPoint(n, goalRadius) : j;
+          let segmentD = `M ${from.x.toFixed(2)} ${from.y.toFixed(2)}`;
           let curr = j;
           let next = n;
           
@@ -355,7 +151,8 @@ export const generateMaze = (config: MazeConfig): MazeData => {
               // Draw curr -> next
               if (curr.r !== next.r) {
                   // Line
-                  segmentD += ` L ${next.x.toFixed(2)} ${next.y.toFixed(2)}`;
+                  const to = next.r === 0 ? goalPoint(curr, goalRadius) : next;
+                  segmentD += ` L ${to.x.toFixed(2)} ${to.y.toFixed(2)}`;
               } else {
                   // Arc
                   let dTheta = next.theta - curr.theta;
@@ -387,13 +184,16 @@ export const generateMaze = (config: MazeConfig): MazeData => {
   // 5. Solution Path
   const solutionCommands: string[] = [];
   let curr: MazeNode | null = startNode;
+  let endPoint: Point = { x: 0, y: 0 };
   
   if (curr) {
       solutionCommands.push(`M ${curr.x.toFixed(2)} ${curr.y.toFixed(2)}`);
       while (curr.parent) {
         const next = curr.parent;
         if (curr.r !== next.r) {
-            solutionCommands.push(`L ${next.x.toFixed(2)} ${next.y.toFixed(2)}`);
+            const to = next.r === 0 ? goalPoint(curr, goalRadius) : next;
+            if (next.r === 0) endPoint = to;
+            solutionCommands.push(`L ${to.x.toFixed(2)} ${to.y.toFixed(2)}`);
         } else {
             let dTheta = next.theta - curr.theta;
             while (dTheta > Math.PI) dTheta -= 2 * Math.PI;
@@ -407,12 +207,37 @@ export const generateMaze = (config: MazeConfig): MazeData => {
   }
   const solutionD = solutionCommands.join(" ");
 
+  // 6. Entry candidates, rescored after rotation so they match analyzeMaze
+  // (the center doesn't rotate, so the last step's sweep changes slightly)
+  const entryCandidates = ranked.slice(0, ENTRY_CANDIDATES).map(({ node }): EntryCandidate => {
+    const route = scoreRoute(node, weights);
+    return {
+      nodeId: node.id,
+      point: { x: node.x, y: node.y },
+      length: route.length,
+      inflections: route.inflections,
+      totalRotation: route.totalRotation,
+      score: route.score,
+    };
+  });
+
+  // 7. Side entry: the start corridor continues radially out through the rim
+  const entryTheta = Math.atan2(startNode.y, startNode.x);
+  const rimRadius = rimDistance(board, entryTheta);
+  const entrancePathD = (config.entryMode ?? 'hole') === 'side'
+    ? `M ${startNode.x.toFixed(2)} ${startNode.y.toFixed(2)} L ${(rimRadius * Math.cos(entryTheta)).toFixed(2)} ${(rimRadius * Math.sin(entryTheta)).toFixed(2)}`
+    : '';
+
   return {
     config,
     pathD,
     solutionD,
+    entrancePathD,
     startPoint: { x: startNode.x, y: startNode.y },
-    endPoint: { x: 0, y: 0 },
-    nodes
+    startNodeId: startNode.id,
+    endPoint,
+    nodes,
+    edges,
+    entryCandidates,
   };
 };
\ No newline at end of file
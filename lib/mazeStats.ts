@@ -0,0 +1,138 @@
+import { MazeData, MazeNode, MazeStats, ScoreWeights } from '../types';
+import { goalRadius } from './board';
+import { edgeLength } from './mazeAlgorithms';
+
+// Default weights of the "hardest start" score. Long routes matter least; every
+// in/out reversal is worth a lot because it defeats the "head for the center" instinct.
+export const SCORE_WEIGHTS: ScoreWeights = {
+  length: 1,
+  inflections: 200,
+  rotation: 10,
+};
+
+export interface RouteScore {
+  length: number;        // steps (passages) to the center
+  inflections: number;   // radial direction reversals
+  totalRotation: number; // radians swept around the center
+  score: number;
+}
+
+/**
+ * Walks the parent chain from a node to the center and scores the route.
+ * This is the metric generateMaze uses to pick the hardest entry point.
+ */
+export const scoreRoute = (start: MazeNode, weights: ScoreWeights = SCORE_WEIGHTS): RouteScore => {
+  let curr: MazeNode = start;
+
+  let prevRadialDir = 0;
+  let inflections = 0;
+  let length = 0;
+  let totalRotation = 0;
+
+  while (curr.parent) {
+      length++;
+      const next: MazeNode = curr.parent;
+
+      // Radial Inflections
+      let currentRadialDir = 0;
+      if (next.r < curr.r) currentRadialDir = 1;
+      else if (next.r > curr.r) currentRadialDir = -1;
+
+      if (currentRadialDir !== 0) {
+          if (prevRadialDir !== 0 && currentRadialDir !== prevRadialDir) {
+              inflections++;
+          }
+          prevRadialDir = currentRadialDir;
+      }
+
+      // Rotation
+      let dTheta = next.theta - curr.theta;
+      while (dTheta > Math.PI) dTheta -= 2 * Math.PI;
+      while (dTheta < -Math.PI) dTheta += 2 * Math.PI;
+      totalRotation += Math.abs(dTheta);
+
+      curr = next;
+  }
+
+  // Difficulty Score:
+  // High Difficulty = Long paths AND Many switches.
+  const score = (length * weights.length) + (inflections * weights.inflections) + (totalRotation * weights.rotation);
+
+  return { length, inflections, totalRotation, score };
+};
+
+/**
+ * Computes difficulty metrics for a generated maze.
+ */
+export const analyzeMaze = (data: MazeData): MazeStats => {
+  const { config, nodes, edges } = data;
+  const stepSize = config.corridorWidth + config.wallWidth;
+  const goal = goalRadius(config);
+  const nodesMap = new Map(nodes.map(n => [n.id, n]));
+  const startNode = nodesMap.get(data.startNodeId) ?? nodes[0];
+  const numRings = Math.max(0, ...nodes.map(n => n.r));
+
+  const degree = new Map<string, number>();
+  nodes.forEach(n => degree.set(n.id, 0));
+  edges.forEach(e => {
+    degree.set(e.p1.id, degree.get(e.p1.id)! + 1);
+    degree.set(e.p2.id, degree.get(e.p2.id)! + 1);
+  });
+
+  // Solution route
+  const weights = config.scoreWeights ?? SCORE_WEIGHTS;
+  const route = scoreRoute(startNode, weights);
+  const onSolution = new Set<string>();
+  let solutionLengthMm = 0;
+  let curr: MazeNode | null = startNode;
+  while (curr) {
+    onSolution.add(curr.id);
+    if (curr.parent) solutionLengthMm += edgeLength(curr, curr.parent, stepSize, goal);
+    curr = curr.parent;
+  }
+
+  // Dead ends: leaves other than the goal and the entry
+  const deadEndsPerRing = new Array(numRings + 1).fill(0);
+  let deadEndCount = 0;
+  let longestDeadEndMm = 0;
+  for (const node of nodes) {
+    if (node.r === 0 || node === startNode || degree.get(node.id) !== 1) continue;
+    deadEndCount++;
+    deadEndsPerRing[node.r]++;
+
+    // Trap length: distance back to where the branch leaves the solution
+    let trap = 0;
+    for (let step = node; step.parent && !onSolution.has(step.id); step = step.parent) {
+      trap += edgeLength(step, step.parent, stepSize, goal);
+    }
+    longestDeadEndMm = Math.max(longestDeadEndMm, trap);
+  }
+
+  // Branching: ways forward from every node that isn't a leaf
+  const throughNodes = nodes.filter(n => degree.get(n.id)! >= 2);
+  const branchingFactor = throughNodes.length > 0
+    ? throughNodes.reduce((sum, n) => sum + degree.get(n.id)! - 1, 0) / throughNodes.length
+    : 0;
+
+  return {
+    solutionLengthMm,
+    solutionSteps: route.length,
+    nodeCount: nodes.length,
+    ringCount: numRings,
+    deadEndCount,
+    deadEndRatio: nodes.length > 0 ? deadEndCount / nodes.length : 0,
+    deadEndsPerRing,
+    junctionCount: nodes.filter(n => degree.get(n.id)! >= 3).length,
+    branchingFactor,
+    loopCount: Math.max(0, edges.length - (nodes.length - 1)),
+    radialInflections: route.inflections,
+    totalRotation: route.totalRotation,
+    longestDeadEndMm,
+    score: route.score,
+    scoreBreakdown: {
+      length: route.length * weights.length,
+      inflections: route.inflections * weights.inflections,
+      rotation: route.totalRotation * weights.rotation,
+    },
+  };
+};
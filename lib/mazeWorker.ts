@@ -0,0 +1,67 @@
+/**
+ * Web Worker entry point. Runs maze generation, the Clipper outline pipeline,
+ * DXF/SVG serialization, the manufacturability check and play-mode collision
+ * geometry off the main thread, posting real progress.
+ */
+
+import { checkManufacturability } from './dfm';
+import { generateMaze } from './mazeGenerator';
+import { exportAssembly, exportMazeFile } from './exporters';
+import { exportSheetLayout } from './nesting';
+import { buildPlayfield } from './playfield';
+import { MazeWorkerRequest, MazeWorkerResponse } from './workerMessages';
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<MazeWorkerRequest>) => void) | null;
+  postMessage: (message: MazeWorkerResponse) => void;
+};
+
+ctx.onmessage = (event) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'generate':
+        ctx.postMessage({ id: request.id, type: 'generated', data: generateMaze(request.config) });
+        break;
+
+      case 'export': {
+        const file = exportMazeFile(request.data, request.format, (progress, stage) => {
+          ctx.postMessage({ id: request.id, type: 'progress', progress, stage });
+        });
+        ctx.postMessage({ id: request.id, type: 'exported', file });
+        break;
+      }
+
+      case 'assembly': {
+        const files = exportAssembly(request.data, request.format, (progress, stage) => {
+          ctx.postMessage({ id: request.id, type: 'progress', progress, stage });
+        });
+        ctx.postMessage({ id: request.id, type: 'exportedFiles', files });
+        break;
+      }
+
+      case 'layout': {
+        const files = exportSheetLayout(request.mazes, request.options, (progress, stage) => {
+          ctx.postMessage({ id: request.id, type: 'progress', progress, stage });
+        });
+        ctx.postMessage({ id: request.id, type: 'exportedFiles', files });
+        break;
+      }
+
+      case 'playfield': {
+        const field = buildPlayfield(request.data, (progress, stage) => {
+          ctx.postMessage({ id: request.id, type: 'progress', progress, stage });
+        });
+        ctx.postMessage({ id: request.id, type: 'playfield', field });
+        break;
+      }
+
+      case 'dfm':
+        ctx.postMessage({ id: request.id, type: 'dfm', report: checkManufacturability(request.data) });
+        break;
+    }
+  } catch (error: any) {
+    ctx.postMessage({ id: request.id, type: 'error', message: error?.message || 'Unknown error' });
+  }
+};
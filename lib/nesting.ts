@@ -0,0 +1,257 @@
+/**
+ * Sheet nesting: lays out the parts of several mazes on stock sheets.
+ *
+ * Every part is treated as a circle: discs are circles already, a polygon board
+ * uses the circle through its corners, and a spare wedge its bounding circle. Parts are placed largest first, each at the
+ * top-left-most position where it touches the sheet edges or parts already
+ * placed, which packs discs close to hexagonally. A part goes on the first sheet
+ * with room, and a new sheet is started when none has room.
+ */
+
+import { DXFVersion, MazeData, Point } from '../types';
+import { boardOf } from './board';
+import { CLIPPER_SCALE, entryWedgeOptions, generateEntryWedgePaths, svgPathToClipperPaths } from './clipperUtils';
+import { AssemblySheet, ExportFile, ProgressCallback, buildAssemblySheets, buildDXFEntities, buildMazeOutlines, dxfDeviationBound } from './exporters';
+import { DXFEntity, DXFLayer, svgPathToPolylines, translateEntity, writeDXF } from './dxfWriter';
+
+export type NestedPartKind = AssemblySheet | 'wedge';
+
+export interface SheetLayoutOptions {
+  sheetWidth: number;  // mm
+  sheetHeight: number; // mm
+  margin: number;      // mm kept clear along the sheet edges
+  gap: number;         // mm minimum between parts
+  layers: AssemblySheet[]; // which sheets of each maze's assembly to cut
+  spareWedges: boolean;    // also cut a loose wedge for mazes with an entry wedge
+  dxfVersion: DXFVersion;
+}
+
+export const DEFAULT_SHEET_LAYOUT: SheetLayoutOptions = {
+  sheetWidth: 600,
+  sheetHeight: 400,
+  margin: 5,
+  gap: 3,
+  layers: ['maze'],
+  spareWedges: false,
+  dxfVersion: 'R2000',
+};
+
+export interface NestedPart {
+  mazeIndex: number; // index into the mazes passed to planSheetLayout
+  kind: NestedPartKind;
+  x: number; // center of the footprint on the sheet
+  y: number;
+  radius: number; // footprint radius
+  offset: Point;  // translation from the part's own coordinates to the sheet
+}
+
+export interface NestedSheet {
+  parts: NestedPart[];
+}
+
+interface Footprint {
+  center: Point; // in the part's own coordinates
+  radius: number;
+}
+
+const EPSILON = 1e-6;
+
+// Bounding circle of the wedge outline (center of its bounding box)
+const wedgeFootprint = (data: MazeData): Footprint => {
+  const { config, startPoint } = data;
+  const { wedgePath } = generateEntryWedgePaths(
+    startPoint.x, startPoint.y, config.diameter / 2, config.corridorWidth, config.holeRadius, entryWedgeOptions(config)
+  );
+  const points = svgPathToClipperPaths(wedgePath).flat().map(p => ({ x: p.X / CLIPPER_SCALE, y: p.Y / CLIPPER_SCALE }));
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const center = { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 };
+  const radius = Math.max(...points.map(p => Math.hypot(p.x - center.x, p.y - center.y)));
+  return { center, radius };
+};
+
+const footprint = (data: MazeData, kind: NestedPartKind): Footprint => {
+  // Kerf compensation grows outer edges by half a kerf
+  const kerf = (data.config.kerfWidth ?? 0) / 2;
+  if (kind === 'wedge') {
+    const wedge = wedgeFootprint(data);
+    return { center: wedge.center, radius: wedge.radius + kerf };
+  }
+  // A polygon's corners move out further than its sides
+  const { sides } = boardOf(data.config);
+  return { center: { x: 0, y: 0 }, radius: data.config.diameter / 2 + (sides > 0 ? kerf / Math.cos(Math.PI / sides) : kerf) };
+};
+
+// Points at distance a from p and b from q
+const circleIntersections = (p: Point, a: number, q: Point, b: number): Point[] => {
+  const d = Math.hypot(q.x - p.x, q.y - p.y);
+  if (d < EPSILON || d > a + b || d < Math.abs(a - b)) return [];
+  const along = (a * a - b * b + d * d) / (2 * d);
+  const h = Math.sqrt(Math.max(0, a * a - along * along));
+  const mx = p.x + (along * (q.x - p.x)) / d;
+  const my = p.y + (along * (q.y - p.y)) / d;
+  return [
+    { x: mx + (h * (q.y - p.y)) / d, y: my - (h * (q.x - p.x)) / d },
+    { x: mx - (h * (q.y - p.y)) / d, y: my + (h * (q.x - p.x)) / d },
+  ];
+};
+
+/**
+ * Top-left-most center for a circle of `radius` on a sheet, or null if it doesn't fit.
+ */
+const findPosition = (placed: NestedPart[], radius: number, options: SheetLayoutOptions): Point | null => {
+  const { sheetWidth, sheetHeight, margin, gap } = options;
+  const minX = margin + radius;
+  const minY = margin + radius;
+  const maxX = sheetWidth - margin - radius;
+  const maxY = sheetHeight - margin - radius;
+  if (minX > maxX + EPSILON || minY > maxY + EPSILON) return null;
+
+  // Candidates touch two edges, an edge and a part, or two parts
+  const candidates: Point[] = [
+    { x: minX, y: minY }, { x: maxX, y: minY }, { x: minX, y: maxY }, { x: maxX, y: maxY },
+  ];
+  for (const part of placed) {
+    const reach = part.radius + gap + radius;
+    for (const x of [minX, maxX]) {
+      const dy = Math.sqrt(Math.max(0, reach * reach - (x - part.x) ** 2));
+      if (Math.abs(x - part.x) <= reach) candidates.push({ x, y: part.y - dy }, { x, y: part.y + dy });
+    }
+    for (const y of [minY, maxY]) {
+      const dx = Math.sqrt(Math.max(0, reach * reach - (y - part.y) ** 2));
+      if (Math.abs(y - part.y) <= reach) candidates.push({ x: part.x - dx, y }, { x: part.x + dx, y });
+    }
+  }
+  for (let i = 0; i < placed.length; i++) {
+    for (let j = i + 1; j < placed.length; j++) {
+      candidates.push(...circleIntersections(
+        placed[i], placed[i].radius + gap + radius,
+        placed[j], placed[j].radius + gap + radius
+      ));
+    }
+  }
+
+  let best: Point | null = null;
+  for (const c of candidates) {
+    if (c.x < minX - EPSILON || c.x > maxX + EPSILON || c.y < minY - EPSILON || c.y > maxY + EPSILON) continue;
+    if (placed.some(part => Math.hypot(c.x - part.x, c.y - part.y) < part.radius + gap + radius - EPSILON)) continue;
+    if (!best || c.y < best.y - EPSILON || (Math.abs(c.y - best.y) <= EPSILON && c.x < best.x)) best = c;
+  }
+  return best;
+};
+
+/**
+ * Packs the selected parts of every maze onto as few sheets as the greedy placement finds.
+ * Throws if a single part is larger than the usable sheet area.
+ */
+export const planSheetLayout = (mazes: MazeData[], options: SheetLayoutOptions): NestedSheet[] => {
+  const parts: { mazeIndex: number; kind: NestedPartKind; footprint: Footprint }[] = [];
+  mazes.forEach((data, mazeIndex) => {
+    for (const kind of options.layers) {
+      parts.push({ mazeIndex, kind, footprint: footprint(data, kind) });
+    }
+    if (options.spareWedges && data.config.showEntryWedge) {
+      parts.push({ mazeIndex, kind: 'wedge', footprint: footprint(data, 'wedge') });
+    }
+  });
+
+  // Largest first leaves the gaps between discs for the small parts
+  parts.sort((a, b) => b.footprint.radius - a.footprint.radius);
+
+  const sheets: NestedSheet[] = [];
+  for (const part of parts) {
+    const { center, radius } = part.footprint;
+    let sheet: NestedSheet | null = null;
+    let position: Point | null = null;
+    for (const candidate of sheets) {
+      position = findPosition(candidate.parts, radius, options);
+      if (position) {
+        sheet = candidate;
+        break;
+      }
+    }
+
+    if (!sheet || !position) {
+      position = findPosition([], radius, options);
+      if (!position) {
+        throw new Error(
+          `A ${(radius * 2).toFixed(0)}mm part does not fit on a ${options.sheetWidth}×${options.sheetHeight}mm sheet with ${options.margin}mm margins`
+        );
+      }
+      sheet = { parts: [] };
+      sheets.push(sheet);
+    }
+
+    const { x, y } = position;
+    sheet.parts.push({
+      mazeIndex: part.mazeIndex,
+      kind: part.kind,
+      x,
+      y,
+      radius,
+      offset: { x: x - center.x, y: y - center.y },
+    });
+  }
+
+  return sheets;
+};
+
+/**
+ * Nests the mazes and writes one DXF per sheet.
+ */
+export const exportSheetLayout = (
+  mazes: MazeData[],
+  options: SheetLayoutOptions,
+  onProgress?: ProgressCallback
+): ExportFile[] => {
+  const sheets = planSheetLayout(mazes, options);
+
+  // Outline each maze once; its parts share the result
+  const outlined = mazes.map((data, i) => {
+    onProgress?.(Math.round((i / mazes.length) * 90), `Outlining maze ${i + 1} of ${mazes.length}`);
+    const { outlines, wedgeData, boltHoles } = buildMazeOutlines(data);
+    return { outlines, wedgeData, boltHoles, sheets: buildAssemblySheets(outlines) };
+  });
+
+  onProgress?.(90, 'Writing sheets');
+  const files = sheets.map((sheet, i): ExportFile => {
+    const layers = new Map<string, DXFLayer>();
+    const entities: DXFEntity[] = [];
+
+    for (const part of sheet.parts) {
+      const data = { ...mazes[part.mazeIndex], config: { ...mazes[part.mazeIndex].config, dxfVersion: options.dxfVersion } };
+      const maze = outlined[part.mazeIndex];
+      const screwHolePath = maze.wedgeData?.screwHolePath ?? '';
+      const sheetEntities = part.kind === 'wedge'
+        ? {
+            layers: screwHolePath
+              ? [{ name: 'WEDGE_CUT', color: 1 }, { name: 'WEDGE_HOLE', color: 2 }]
+              : [{ name: 'WEDGE_CUT', color: 1 }],
+            entities: [
+              ...svgPathToPolylines(maze.wedgeData?.wedgePath ?? '', 'WEDGE_CUT'),
+              ...svgPathToPolylines(screwHolePath, 'WEDGE_HOLE'),
+            ],
+          }
+        : buildDXFEntities(data, maze.sheets[part.kind], part.kind === 'maze' ? maze.wedgeData : null, maze.boltHoles);
+
+      sheetEntities.layers.forEach(layer => layers.set(layer.name, layer));
+      sheetEntities.entities.forEach(entity => entities.push(translateEntity(entity, part.offset.x, part.offset.y)));
+    }
+
+    return {
+      filename: `orbital_maze_sheet${i + 1}_of${sheets.length}_${options.sheetWidth}x${options.sheetHeight}mm.dxf`,
+      mimeType: 'application/dxf',
+      content: writeDXF({
+        layers: [...layers.values()],
+        entities,
+        extents: { minX: 0, minY: 0, maxX: options.sheetWidth, maxY: options.sheetHeight },
+      }, options.dxfVersion),
+      deviationBound: Math.max(0, ...sheet.parts.map(part =>
+        dxfDeviationBound(outlined[part.mazeIndex].outlines, options.dxfVersion, mazes[part.mazeIndex].config.arcTolerance ?? 0)
+      )),
+    };
+  });
+
+  onProgress?.(100, 'Done');
+  return files;
+};
@@ -0,0 +1,175 @@
+/**
+ * Analysis overlays for the viewer. They show where a maze's difficulty comes
+ * from: a long solution, long dead-end traps, or many branches off the route.
+ */
+
+import { MazeData, MazeNode, Point } from '../types';
+import { goalRadius } from './board';
+import { edgeLength, passagePathD } from './mazeAlgorithms';
+
+export type MazeOverlayId = 'distance' | 'deadEnds' | 'branches';
+
+export interface MazeOverlay {
+  id: MazeOverlayId;
+  label: string;
+  description: string;
+}
+
+export const MAZE_OVERLAYS: Record<MazeOverlayId, MazeOverlay> = {
+  distance: {
+    id: 'distance',
+    label: 'Distance',
+    description: 'Colours every passage by its walking distance from the center.',
+  },
+  deadEnds: {
+    id: 'deadEnds',
+    label: 'Dead Ends',
+    description: 'Highlights each dead end back to the solution, labelled with its length.',
+  },
+  branches: {
+    id: 'branches',
+    label: 'Branches',
+    description: 'Marks where side branches leave the solution and how much corridor hangs off each.',
+  },
+};
+
+export interface DistancePassage {
+  d: string;
+  distanceMm: number; // from the center to the passage's midpoint
+}
+
+// A dead end and the corridor back to where it leaves the solution
+export interface DeadEndTrap {
+  d: string;
+  tip: Point;
+  lengthMm: number;
+}
+
+// A solution node that side branches leave from
+export interface BranchExit {
+  point: Point;
+  exits: number;
+  decoyMm: number; // corridor reachable through those exits without touching the solution
+  d: string; // the branches themselves
+}
+
+export interface MazeOverlays {
+  passages: DistancePassage[];
+  maxDistanceMm: number;
+  traps: DeadEndTrap[];
+  exits: BranchExit[];
+  solutionMm: number;
+  decoyMm: number; // corridor off the solution a player can wander into
+}
+
+/**
+ * Builds the data for every overlay of a maze.
+ */
+export const buildOverlays = (data: MazeData): MazeOverlays => {
+  const { config, nodes, edges } = data;
+  const stepSize = config.corridorWidth + config.wallWidth;
+  const goal = goalRadius(config);
+  const nodesMap = new Map(nodes.map(n => [n.id, n]));
+  const startNode = nodesMap.get(data.startNodeId) ?? nodes[0];
+
+  const adjacency = new Map<string, MazeNode[]>();
+  nodes.forEach(n => adjacency.set(n.id, []));
+  edges.forEach(e => {
+    adjacency.get(e.p1.id)!.push(e.p2);
+    adjacency.get(e.p2.id)!.push(e.p1);
+  });
+
+  // Parents already follow the shortest route to the center
+  const distance = new Map<string, number>();
+  const distanceTo = (node: MazeNode): number => {
+    const chain: MazeNode[] = [];
+    let curr: MazeNode = node;
+    while (!distance.has(curr.id) && curr.parent) {
+      chain.push(curr);
+      curr = curr.parent;
+    }
+    let total = distance.get(curr.id) ?? 0;
+    distance.set(curr.id, total);
+    for (let i = chain.length - 1; i >= 0; i--) {
+      total += edgeLength(chain[i], chain[i].parent!, stepSize, goal);
+      distance.set(chain[i].id, total);
+    }
+    return distance.get(node.id)!;
+  };
+
+  const passages = edges.map(e => ({
+    d: passagePathD(e.p1, e.p2, stepSize, goal),
+    distanceMm: (distanceTo(e.p1) + distanceTo(e.p2)) / 2,
+  }));
+
+  // Solution route
+  const onSolution = new Set<string>();
+  const route: MazeNode[] = [];
+  for (let curr: MazeNode | null = startNode; curr; curr = curr.parent) {
+    onSolution.add(curr.id);
+    route.push(curr);
+  }
+  const solutionMm = distanceTo(startNode);
+
+  // Dead ends: leaves other than the goal and the entry, traced back to the solution
+  const traps: DeadEndTrap[] = [];
+  for (const node of nodes) {
+    if (node.r === 0 || node === startNode || adjacency.get(node.id)!.length !== 1) continue;
+    const segments: string[] = [];
+    let lengthMm = 0;
+    for (let step = node; step.parent && !onSolution.has(step.id); step = step.parent) {
+      segments.push(passagePathD(step, step.parent, stepSize, goal));
+      lengthMm += edgeLength(step, step.parent, stepSize, goal);
+    }
+    traps.push({ d: segments.join(' '), tip: { x: node.x, y: node.y }, lengthMm });
+  }
+
+  // Branch exits: flood each side branch until it runs out or meets the solution again.
+  // Branches off the center are skipped; a player only gets there by finishing.
+  const claimed = new Set<string>(onSolution);
+  const exits: BranchExit[] = [];
+  for (const junction of route) {
+    if (junction.r === 0) continue;
+    const segments: string[] = [];
+    let exitCount = 0;
+    let decoyMm = 0;
+    for (const first of adjacency.get(junction.id)!) {
+      if (claimed.has(first.id)) continue;
+      exitCount++;
+      segments.push(passagePathD(junction, first, stepSize, goal));
+      decoyMm += edgeLength(junction, first, stepSize, goal);
+      claimed.add(first.id);
+      const queue = [first];
+      while (queue.length > 0) {
+        const curr = queue.pop()!;
+        for (const next of adjacency.get(curr.id)!) {
+          if (claimed.has(next.id)) continue;
+          claimed.add(next.id);
+          segments.push(passagePathD(curr, next, stepSize, goal));
+          decoyMm += edgeLength(curr, next, stepSize, goal);
+          queue.push(next);
+        }
+      }
+    }
+    if (exitCount > 0) {
+      exits.push({ point: { x: junction.x, y: junction.y }, exits: exitCount, decoyMm, d: segments.join(' ') });
+    }
+  }
+
+  return {
+    passages,
+    maxDistanceMm: Math.max(0, ...passages.map(p => p.distanceMm)),
+    traps,
+    exits,
+    solutionMm,
+    decoyMm: exits.reduce((sum, exit) => sum + exit.decoyMm, 0),
+  };
+};
+
+/**
+ * Colour for a distance overlay value: green at the center, red at the far end.
+ */
+export const distanceColor = (distanceMm: number, maxDistanceMm: number): string => {
+  const t = maxDistanceMm > 0 ? Math.min(1, distanceMm / maxDistanceMm) : 0;
+  return `hsl(${(160 * (1 - t)).toFixed(0)}, 80%, 50%)`;
+};
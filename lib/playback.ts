@@ -0,0 +1,93 @@
+/**
+ * Step-by-step replay of maze generation and of the solvers.
+ *
+ * Generation is recorded through generateMaze's `onStep` hook, so a trace
+ * always matches the maze the same config exports. Frames are rebuilt from the
+ * first step each time, which keeps scrubbing backwards as cheap as forwards.
+ */
+
+import { MazeConfig, MazeData } from '../types';
+import { CarveStep } from './mazeAlgorithms';
+import { generateMaze } from './mazeGenerator';
+import { SolverStep } from './solvers';
+
+export interface GenerationTrace {
+  data: MazeData;
+  steps: CarveStep[];
+}
+
+export interface GenerationFrame {
+  carved: [string, string][]; // tree passages opened so far
+  loops: [string, string][]; // braid passages opened so far
+  active: string[]; // Growing Tree active list, oldest first
+  current: CarveStep | null; // the last step shown
+  branches: number; // carves that grew from a random active cell
+  backtracks: number;
+}
+
+export interface SolverFrame {
+  explored: [string, string][];
+  retreated: [string, string][]; // walked back out of a dead end
+  current: string | null;
+  visited: number;
+  backtracks: number;
+}
+
+/**
+ * Generates the maze for `config` and records every carving step.
+ */
+export const recordGeneration = (config: MazeConfig): GenerationTrace => {
+  const steps: CarveStep[] = [];
+  const data = generateMaze(config, step => steps.push(step));
+  return { data, steps };
+};
+
+/**
+ * State of the generation after the first `count` steps.
+ */
+export const generationFrame = (trace: GenerationTrace, count: number): GenerationFrame => {
+  const center = trace.data.nodes.find(n => n.r === 0)!.id;
+  const frame: GenerationFrame = { carved: [], loops: [], active: [center], current: null, branches: 0, backtracks: 0 };
+
+  for (const step of trace.steps.slice(0, count)) {
+    if (step.type === 'carve') {
+      frame.carved.push([step.from, step.to]);
+      frame.active.push(step.to);
+      if (step.branch) frame.branches++;
+    } else if (step.type === 'backtrack') {
+      frame.active.splice(frame.active.indexOf(step.node), 1);
+      frame.backtracks++;
+    } else {
+      frame.loops.push([step.from, step.to]);
+    }
+    frame.current = step;
+  }
+
+  return frame;
+};
+
+/**
+ * State of a solver after its first `count` moves.
+ */
+export const solverFrame = (steps: SolverStep[], count: number): SolverFrame => {
+  // Latest state per passage, whichever way it was walked
+  const passages = new Map<string, { ends: [string, string]; retreated: boolean }>();
+  const visited = new Set<string>();
+  let current: string | null = null;
+  let backtracks = 0;
+
+  for (const step of steps.slice(0, count)) {
+    visited.add(step.to);
+    current = step.to;
+    if (step.backtrack) backtracks++;
+    if (step.from === null) continue;
+    const key = [step.from, step.to].sort().join('-');
+    passages.set(key, { ends: [step.from, step.to], retreated: step.backtrack });
+  }
+
+  const explored: [string, string][] = [];
+  const retreated: [string, string][] = [];
+  passages.forEach(({ ends, retreated: back }) => (back ? retreated : explored).push(ends));
+
+  return { explored, retreated, current, visited: visited.size, backtracks };
+};
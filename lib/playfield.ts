@@ -0,0 +1,182 @@
+/**
+ * Collision geometry for play mode.
+ *
+ * The open floor is the cut outline from createMazeOutline (corridors plus the
+ * center and entry holes, or an annular board's hole). Shrinking it by the puck radius gives the region the
+ * puck's center may occupy, so collision is a point test against that region.
+ * Moves advance in small steps; a step that would leave the region is pulled
+ * back onto its edge, which lets the puck slide along walls and round bends.
+ */
+
+import ClipperLib from 'clipper-lib';
+import { MazeData, Point } from '../types';
+import { boardOf, goalHoleRadius } from './board';
+import { CLIPPER_SCALE, createMazeOutline, svgPathToClipperPaths } from './clipperUtils';
+import { ProgressCallback } from './exporters';
+
+// mm of play between puck and walls; a puck exactly as wide as the corridor couldn't move
+export const PUCK_CLEARANCE = 1;
+
+// Longest single step (mm), well below any wall so the puck can't tunnel through
+const MAX_STEP = 0.25;
+// Grid cell size (mm) for the segment index
+const CELL_SIZE = 5;
+// Max deviation (mm) of the shrunk region from the exact offset
+const ARC_TOLERANCE = 0.01;
+
+type Segment = [number, number, number, number];
+
+export interface Playfield {
+  puckRadius: number;
+  start: Point; // entry hole
+  goal: Point; // center hole, or an annular board's hole
+  goalRadius: number;
+  cells: Record<string, Segment[]>; // edges of the puck-center region by grid cell
+  rows: Record<number, Segment[]>; // the same edges by grid row, for inside tests
+}
+
+const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+
+const distance = (a: Point, b: Point): number => Math.hypot(b.x - a.x, b.y - a.y);
+
+const closestOnSegment = (p: Point, [ax, ay, bx, by]: Segment): Point => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - ax) * dx + (p.y - ay) * dy) / lengthSq)) : 0;
+  return { x: ax + t * dx, y: ay + t * dy };
+};
+
+/**
+ * Outlines the maze and builds the region the puck's center can reach.
+ */
+export const buildPlayfield = (data: MazeData, onProgress?: ProgressCallback): Playfield => {
+  const { config, pathD, startPoint } = data;
+  const puckRadius = Math.max(0.1, (config.corridorWidth - PUCK_CLEARANCE) / 2);
+  const board = boardOf(config);
+
+  const outlines = createMazeOutline(
+    pathD,
+    data.entrancePathD,
+    config.corridorWidth,
+    config.diameter / 2,
+    config.holeRadius,
+    config.cornerRounding ? 'round' : 'miter',
+    (config.entryMode ?? 'hole') === 'hole' ? startPoint : undefined,
+    { onProgress, boardSides: board.sides, innerRadius: board.innerRadius }
+  );
+
+  // Holes and corridors go in as separate operands: the hole circles may be
+  // wound either way, and under one fill rule a reversed circle would punch a hole
+  onProgress?.(85, 'Shrinking floor by the puck');
+  const clipper = new ClipperLib.Clipper();
+  clipper.AddPaths(svgPathToClipperPaths(outlines.corridors), ClipperLib.PolyType.ptSubject, true);
+  for (const hole of [outlines.centerHole, outlines.innerBoundary, outlines.entryHole]) {
+    if (hole) clipper.AddPaths(svgPathToClipperPaths(hole), ClipperLib.PolyType.ptClip, true);
+  }
+  const floor = new ClipperLib.Paths();
+  clipper.Execute(ClipperLib.ClipType.ctUnion, floor, ClipperLib.PolyFillType.pftNonZero, ClipperLib.PolyFillType.pftNonZero);
+
+  // The outline carries many near-duplicate vertices; dropping them first makes the offset far cheaper
+  const co = new ClipperLib.ClipperOffset();
+  co.ArcTolerance = ARC_TOLERANCE * CLIPPER_SCALE;
+  co.AddPaths(ClipperLib.Clipper.CleanPolygons(floor, ARC_TOLERANCE * CLIPPER_SCALE), ClipperLib.JoinType.jtRound, ClipperLib.EndType.etClosedPolygon);
+  const region = new ClipperLib.Paths();
+  co.Execute(region, -puckRadius * CLIPPER_SCALE);
+
+  onProgress?.(95, 'Indexing walls');
+  const cells: Record<string, Segment[]> = {};
+  const rows: Record<number, Segment[]> = {};
+  for (const path of region) {
+    for (let i = 0; i < path.length; i++) {
+      const a = path[i];
+      const b = path[(i + 1) % path.length];
+      const segment: Segment = [a.X / CLIPPER_SCALE, a.Y / CLIPPER_SCALE, b.X / CLIPPER_SCALE, b.Y / CLIPPER_SCALE];
+      const minCX = Math.floor(Math.min(segment[0], segment[2]) / CELL_SIZE);
+      const maxCX = Math.floor(Math.max(segment[0], segment[2]) / CELL_SIZE);
+      const minCY = Math.floor(Math.min(segment[1], segment[3]) / CELL_SIZE);
+      const maxCY = Math.floor(Math.max(segment[1], segment[3]) / CELL_SIZE);
+      for (let cy = minCY; cy <= maxCY; cy++) {
+        (rows[cy] ??= []).push(segment);
+        for (let cx = minCX; cx <= maxCX; cx++) {
+          (cells[cellKey(cx, cy)] ??= []).push(segment);
+        }
+      }
+    }
+  }
+
+  onProgress?.(100, 'Done');
+  return {
+    puckRadius,
+    start: { x: startPoint.x, y: startPoint.y },
+    goal: { x: 0, y: 0 },
+    goalRadius: goalHoleRadius(config),
+    cells,
+    rows,
+  };
+};
+
+// Even-odd ray cast towards +x against the edges in p's row
+const isInside = (field: Playfield, p: Point): boolean => {
+  let inside = false;
+  for (const [ax, ay, bx, by] of field.rows[Math.floor(p.y / CELL_SIZE)] ?? []) {
+    if ((ay > p.y) !== (by > p.y) && p.x < ax + ((p.y - ay) / (by - ay)) * (bx - ax)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Nearest point on the region's edge within one cell of p, or null if none is that close
+const nearestEdgePoint = (field: Playfield, p: Point): Point | null => {
+  const cx = Math.floor(p.x / CELL_SIZE);
+  const cy = Math.floor(p.y / CELL_SIZE);
+  let best: Point | null = null;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (const segment of field.cells[cellKey(cx + dx, cy + dy)] ?? []) {
+        const q = closestOnSegment(p, segment);
+        if (!best || distance(p, q) < distance(p, best)) best = q;
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Moves the puck from `from` towards `to`, sliding along walls.
+ * Returns where it stops: at `to`, or as close as the walls allow.
+ */
+export const movePuck = (field: Playfield, from: Point, to: Point): Point => {
+  let position = from;
+  const maxSteps = Math.ceil(distance(from, to) / MAX_STEP) * 2 + 1;
+
+  for (let i = 0; i < maxSteps; i++) {
+    const remaining = distance(position, to);
+    if (remaining < 1e-6) break;
+
+    const step = Math.min(MAX_STEP, remaining);
+    const desired = {
+      x: position.x + ((to.x - position.x) * step) / remaining,
+      y: position.y + ((to.y - position.y) * step) / remaining,
+    };
+    if (isInside(field, desired)) {
+      position = desired;
+      continue;
+    }
+
+    // Blocked: slide to the nearest point on the wall, if that gets anywhere
+    const slid = nearestEdgePoint(field, desired);
+    if (!slid || distance(slid, position) < 1e-3 || distance(slid, position) > 2 * MAX_STEP) break;
+    if (distance(slid, to) >= remaining) break;
+    position = slid;
+  }
+
+  return position;
+};
+
+/**
+ * True once the puck's center is over the center hole.
+ */
+export const isAtGoal = (field: Playfield, p: Point): boolean =>
+  distance(p, field.goal) <= field.goalRadius;
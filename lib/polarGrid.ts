@@ -0,0 +1,295 @@
+import { GridTopology, MazeConfig, MazeNode } from '../types';
+import { boardOf, distanceToRim, goalRadius } from './board';
+
+/**
+ * The polar node grid every carving strategy works on.
+ * Ring 0 holds only the center node (the goal); ring r holds cells spaced ~stepSize apart.
+ * On an annular board the rings inside `firstRing` are empty and the center node
+ * stands for the hole, which every cell of the first ring opens into.
+ */
+export interface PolarGrid {
+  nodes: MazeNode[];
+  nodesMap: Map<string, MazeNode>;
+  ringNodes: MazeNode[][];
+  centerNode: MazeNode;
+  firstRing: number;
+  numRings: number;
+  rimNodes: MazeNode[]; // cells along the board's outer edge, where the entry may go
+  stepSize: number;
+  goalRadius: number; // mm from the center where passages into the goal end
+  topology: GridTopology;
+  getNeighbors: (node: MazeNode) => MazeNode[];
+}
+
+const TAU = 2 * Math.PI;
+
+// Overlaps narrower than this share of the narrower cell are ignored. A passage
+// across a smaller overlap runs slanted enough to pinch the walls beside it.
+// At one half every cell still links to the cell under its center on the ring inside.
+const MIN_OVERLAP_FRACTION = 0.5;
+// Slack for two cells meeting exactly at a cell's center, which both count
+const OVERLAP_EPSILON = 1e-9;
+
+/**
+ * Index of a node within its ring (the second part of its "r,c" id).
+ */
+export const ringIndex = (node: MazeNode): number => parseInt(node.id.split(',')[1]);
+
+/**
+ * Angular overlap (radians) between two cells on adjacent rings, 0 if disjoint.
+ */
+const angularOverlap = (thetaA: number, countA: number, thetaB: number, countB: number): number => {
+  let d = thetaB - thetaA;
+  while (d > Math.PI) d -= TAU;
+  while (d < -Math.PI) d += TAU;
+  const halfA = Math.PI / countA;
+  const halfB = Math.PI / countB;
+  const overlap = Math.min(halfA, Math.abs(d) + halfB) - Math.max(-halfA, Math.abs(d) - halfB);
+  return Math.max(0, overlap);
+};
+
+/**
+ * Links between every pair of cells on rings r and r + 1 whose angular spans
+ * overlap by at least MIN_OVERLAP_FRACTION of the narrower cell. Symmetric by construction.
+ */
+const linkOverlappingRings = (inner: MazeNode[], outer: MazeNode[], adjacency: Map<string, MazeNode[]>) => {
+  const narrowest = TAU / Math.max(inner.length, outer.length);
+  for (const a of inner) {
+    for (const b of outer) {
+      if (angularOverlap(a.theta, inner.length, b.theta, outer.length) >= narrowest * MIN_OVERLAP_FRACTION - OVERLAP_EPSILON) {
+        adjacency.get(a.id)!.push(b);
+        adjacency.get(b.id)!.push(a);
+      }
+    }
+  }
+};
+
+/**
+ * The largest inner diameter that still leaves a config one ring of corridors,
+ * 0 if even a solid board has none.
+ */
+export const maxInnerDiameter = (config: MazeConfig): number => {
+  const { diameter, wallWidth, corridorWidth } = config;
+  const stepSize = corridorWidth + wallWidth;
+  const numRings = Math.floor((diameter / 2 - wallWidth - corridorWidth / 2) / stepSize);
+  return Math.max(0, 2 * (numRings * stepSize - wallWidth - corridorWidth / 2));
+};
+
+/**
+ * Builds the concentric ring grid for a config.
+ *
+ * Two topologies are supported:
+ * - 'nearest': the original mapping, one inner and one outer link per cell chosen
+ *   by rounding the index ratio. Not symmetric; kept so older seeds replay.
+ * - 'overlap': every pair of cells on adjacent rings whose angular spans
+ *   overlap by at least half the narrower cell is linked, giving even radial
+ *   connectivity on all rings without slanted spokes.
+ *
+ * A polygon board gets the rings of its circumscribed disc, trimmed to the cells
+ * that keep a wall's width from its sides.
+ */
+export const buildPolarGrid = (config: MazeConfig): PolarGrid => {
+  const { diameter, wallWidth, corridorWidth } = config;
+  const topology: GridTopology = config.gridTopology ?? 'nearest';
+  const board = boardOf(config);
+
+  const radius = diameter / 2;
+  const stepSize = corridorWidth + wallWidth;
+
+  // Calculate rings
+  const margin = wallWidth;
+  const usableRadius = radius - margin - (corridorWidth / 2);
+  let numRings = Math.floor(usableRadius / stepSize);
+
+  // An annular board's hole, and a wall around it, push the first ring outwards
+  const firstRing = board.innerRadius > 0
+    ? Math.max(1, Math.ceil((board.innerRadius + margin + corridorWidth / 2) / stepSize))
+    : 1;
+  if (firstRing > numRings) {
+    throw new Error(`An inner diameter of ${config.innerDiameter}mm leaves no room for the maze`);
+  }
+
+  const nodes: MazeNode[] = [];
+  const nodesMap = new Map<string, MazeNode>();
+
+  const centerNode: MazeNode = {
+    id: "0,0",
+    r: 0,
+    theta: 0,
+    x: 0,
+    y: 0,
+    visited: false,
+    parent: null
+  };
+  nodes.push(centerNode);
+  nodesMap.set(centerNode.id, centerNode);
+
+  const ringNodes: MazeNode[][] = [[centerNode]];
+  for (let r = 1; r < firstRing; r++) ringNodes.push([]);
+
+  for (let r = firstRing; r <= numRings; r++) {
+    const currentRadius = r * stepSize;
+    const circumference = 2 * Math.PI * currentRadius;
+    const numCells = Math.round(circumference / stepSize);
+
+    const ringRow: MazeNode[] = [];
+    for (let c = 0; c < numCells; c++) {
+      const theta = (c / numCells) * 2 * Math.PI;
+      const x = currentRadius * Math.cos(theta);
+      const y = currentRadius * Math.sin(theta);
+
+      const node: MazeNode = {
+        id: `${r},${c}`,
+        r,
+        theta,
+        x,
+        y,
+        visited: false,
+        parent: null
+      };
+
+      nodes.push(node);
+      nodesMap.set(node.id, node);
+      ringRow.push(node);
+    }
+    ringNodes.push(ringRow);
+  }
+
+  // Legacy: strictly one inward and one outward neighbour by index rounding
+  const getNearestNeighbors = (node: MazeNode): MazeNode[] => {
+    const n: MazeNode[] = [];
+
+    if (node.r === 0) {
+      if (ringNodes[firstRing]) return [...ringNodes[firstRing]];
+      return [];
+    }
+
+    const myRing = ringNodes[node.r];
+    const myIndex = ringIndex(node);
+    const myCount = myRing.length;
+
+    // 1. Sideways (CW/CCW)
+    const cwIndex = (myIndex + 1) % myCount;
+    const ccwIndex = (myIndex - 1 + myCount) % myCount;
+    n.push(myRing[cwIndex]);
+    n.push(myRing[ccwIndex]);
+
+    // 2. Inward
+    if (node.r === firstRing) {
+      n.push(centerNode);
+    } else {
+      const innerRing = ringNodes[node.r - 1];
+      const innerCount = innerRing.length;
+      const ratio = innerCount / myCount;
+      const innerIndex = Math.round(myIndex * ratio) % innerCount;
+      n.push(innerRing[innerIndex]);
+    }
+
+    // 3. Outward
+    if (node.r < numRings) {
+      const outerRing = ringNodes[node.r + 1];
+      const outerCount = outerRing.length;
+      const ratio = outerCount / myCount;
+      const outerIndex = Math.round(myIndex * ratio) % outerCount;
+      n.push(outerRing[outerIndex]);
+    }
+
+    return n;
+  };
+
+  let getNeighbors = getNearestNeighbors;
+
+  if (topology === 'overlap') {
+    // Precompute the full symmetric graph: sideways, then every overlapping cell per ring pair
+    const adjacency = new Map<string, MazeNode[]>();
+    nodes.forEach(n => adjacency.set(n.id, []));
+
+    for (let r = firstRing; r <= numRings; r++) {
+      const ring = ringNodes[r];
+      for (let c = 0; c < ring.length; c++) {
+        const next = ring[(c + 1) % ring.length];
+        if (next === ring[c] || adjacency.get(ring[c].id)!.includes(next)) continue;
+        adjacency.get(ring[c].id)!.push(next);
+        adjacency.get(next.id)!.push(ring[c]);
+      }
+    }
+
+    linkOverlappingRings(ringNodes[0], ringNodes[firstRing], adjacency);
+    for (let r = firstRing; r < numRings; r++) {
+      linkOverlappingRings(ringNodes[r], ringNodes[r + 1], adjacency);
+    }
+
+    getNeighbors = (node: MazeNode) => adjacency.get(node.id)!;
+  }
+
+  if (board.sides === 0) {
+    return {
+      nodes, nodesMap, ringNodes, centerNode, firstRing, numRings,
+      rimNodes: ringNodes[numRings],
+      stepSize, goalRadius: goalRadius(config), topology, getNeighbors,
+    };
+  }
+
+  // Polygon: keep the cells inside the outline that the center still reaches.
+  // Neighbours are worked out on the full rings first, as the nearest mapping goes by index.
+  const ringCounts = ringNodes.map(ring => ring.length);
+  const inside = new Set(nodes.filter(n => n.r === 0 || distanceToRim(board, n) >= margin + corridorWidth / 2).map(n => n.id));
+  const fullNeighbors = getNeighbors;
+  const kept = new Set<string>([centerNode.id]);
+  const queue = [centerNode];
+  while (queue.length > 0) {
+    for (const next of fullNeighbors(queue.pop()!)) {
+      if (!inside.has(next.id) || kept.has(next.id)) continue;
+      kept.add(next.id);
+      queue.push(next);
+    }
+  }
+  const trimmedNeighbors = (node: MazeNode) => fullNeighbors(node).filter(n => kept.has(n.id));
+
+  const keptNodes = nodes.filter(n => kept.has(n.id));
+  if (keptNodes.length < 2) throw new Error(`A ${board.sides}-sided board of ${diameter}mm has no room for the maze`);
+  const keptRings = ringNodes.map(ring => ring.filter(n => kept.has(n.id)));
+  while (numRings > firstRing && keptRings[numRings].length === 0) numRings--;
+  keptRings.length = numRings + 1;
+
+  // A cell is on the rim when nothing further out overlaps it
+  const rimNodes = keptRings.slice(firstRing).flat().filter(n =>
+    n.r === numRings ||
+    !keptRings[n.r + 1].some(outer => angularOverlap(n.theta, ringCounts[n.r], outer.theta, ringCounts[n.r + 1]) > 0)
+  );
+
+  return {
+    nodes: keptNodes,
+    nodesMap: new Map(keptNodes.map(n => [n.id, n])),
+    ringNodes: keptRings,
+    centerNode,
+    firstRing,
+    numRings,
+    rimNodes,
+    stepSize,
+    goalRadius: goalRadius(config),
+    topology,
+    getNeighbors: trimmedNeighbors,
+  };
+};
+
+/**
+ * Builds a symmetric adjacency list from the grid.
+ * The 'nearest' topology is not symmetric between rings, so every link found
+ * from either side is recorded on both nodes.
+ */
+export const buildAdjacency = (grid: PolarGrid): Map<string, MazeNode[]> => {
+  const adjacency = new Map<string, MazeNode[]>();
+  grid.nodes.forEach(n => adjacency.set(n.id, []));
+
+  for (const node of grid.nodes) {
+    for (const neighbor of grid.getNeighbors(node)) {
+      const list = adjacency.get(node.id)!;
+      if (neighbor === node || list.includes(neighbor)) continue;
+      list.push(neighbor);
+      adjacency.get(neighbor.id)!.push(node);
+    }
+  }
+
+  return adjacency;
+};
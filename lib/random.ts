@@ -0,0 +1,89 @@
+/**
+ * Seedable pseudo-random number generators.
+ *
+ * Every generator is selected by a version number stored in MazeConfig.rngVersion,
+ * so a seed keeps producing the same maze even after the default generator changes.
+ *
+ * - v1: the original `Math.sin(seed++) * 10000` generator. Kept bit-for-bit so
+ *   older seeds (including everything in designs/finals) still regenerate.
+ * - v2: xoshiro128** seeded through splitmix32. Uses only 32-bit integer math,
+ *   so its output is identical on every JS engine.
+ */
+
+import { RngVersion } from '../types';
+
+export const LATEST_RNG_VERSION: RngVersion = 2;
+
+export const RNG_VERSIONS: Record<RngVersion, { label: string; description: string }> = {
+    1: { label: 'v1 (Legacy)', description: 'Original sin-based generator. Use to replay older seeds.' },
+    2: { label: 'v2 (xoshiro128**)', description: 'Uncorrelated, engine-independent output.' },
+};
+
+/**
+ * v1: legacy sin-based generator. Do not change - old seeds depend on it.
+ */
+function createLegacyRandom(seed: number): () => number {
+    let seedValue = seed;
+    return () => {
+        const x = Math.sin(seedValue++) * 10000;
+        return x - Math.floor(x);
+    };
+}
+
+/**
+ * splitmix32: expands a single 32-bit seed into well-mixed state words.
+ */
+function splitmix32(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x9e3779b9) >>> 0;
+        let z = state;
+        z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+        z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+        return (z ^ (z >>> 16)) >>> 0;
+    };
+}
+
+/**
+ * v2: xoshiro128** (Blackman & Vigna). Returns floats in [0, 1).
+ */
+function createXoshiro128(seed: number): () => number {
+    const mix = splitmix32(seed);
+    let s0 = mix();
+    let s1 = mix();
+    let s2 = mix();
+    let s3 = mix();
+
+    // An all-zero state would only ever produce zeros
+    if ((s0 | s1 | s2 | s3) === 0) s0 = 1;
+
+    const rotl = (x: number, k: number) => (x << k) | (x >>> (32 - k));
+
+    return () => {
+        const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9) >>> 0;
+        const t = s1 << 9;
+
+        s2 ^= s0;
+        s3 ^= s1;
+        s1 ^= s2;
+        s0 ^= s3;
+        s2 ^= t;
+        s3 = rotl(s3, 11);
+
+        return result / 4294967296;
+    };
+}
+
+/**
+ * Creates the PRNG for a seed. Unknown or missing versions fall back to v1,
+ * since configs saved before versioning existed were all generated with it.
+ */
+export function createRandom(seed: number, version: RngVersion = 1): () => number {
+    switch (version) {
+        case 2:
+            return createXoshiro128(seed);
+        case 1:
+        default:
+            return createLegacyRandom(seed);
+    }
+}
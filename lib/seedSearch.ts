@@ -0,0 +1,99 @@
+/**
+ * Batch seed search.
+ *
+ * Generates a range of seeds for a fixed config, keeps those whose stats match
+ * the criteria and ranks them, so production seeds can be picked by numbers
+ * instead of by clicking "Regenerate" for hours.
+ */
+
+import { MazeConfig, MazeStats, Point } from '../types';
+import { generateMaze } from './mazeGenerator';
+import { analyzeMaze } from './mazeStats';
+
+export interface SeedSearchCriteria {
+    minSolutionLength?: number; // mm
+    maxSolutionLength?: number; // mm
+    minInflections?: number;
+    maxDeadEndRatio?: number;   // 0-1
+    targetScore?: number;       // rank by closeness to this score instead of highest first
+}
+
+export interface SeedSearchResult {
+    seed: number;
+    stats: MazeStats;
+    // Enough geometry to draw a thumbnail
+    pathD: string;
+    solutionD: string;
+    startPoint: Point;
+}
+
+export interface SeedSearchOptions {
+    startSeed: number;
+    count: number;       // how many consecutive seeds to try
+    maxResults?: number; // keep only the best N matches
+    batchSize?: number;  // seeds generated between yields to the UI
+    onProgress?: (done: number, total: number, matches: number) => void;
+    signal?: AbortSignal;
+}
+
+/**
+ * Checks a maze's stats against the search criteria. Unset criteria always pass.
+ */
+export function matchesCriteria(stats: MazeStats, criteria: SeedSearchCriteria): boolean {
+    if (criteria.minSolutionLength !== undefined && stats.solutionLengthMm < criteria.minSolutionLength) return false;
+    if (criteria.maxSolutionLength !== undefined && stats.solutionLengthMm > criteria.maxSolutionLength) return false;
+    if (criteria.minInflections !== undefined && stats.radialInflections < criteria.minInflections) return false;
+    if (criteria.maxDeadEndRatio !== undefined && stats.deadEndRatio > criteria.maxDeadEndRatio) return false;
+    return true;
+}
+
+/**
+ * Sort comparator: closest to the target score first, or highest score if no target.
+ */
+export function compareResults(criteria: SeedSearchCriteria) {
+    return (a: SeedSearchResult, b: SeedSearchResult): number => {
+        if (criteria.targetScore !== undefined) {
+            return Math.abs(a.stats.score - criteria.targetScore) - Math.abs(b.stats.score - criteria.targetScore);
+        }
+        return b.stats.score - a.stats.score;
+    };
+}
+
+/**
+ * Generates `count` consecutive seeds and returns the ranked matches.
+ * Work is done in batches with a yield in between so the UI keeps painting.
+ * Aborting via `signal` resolves with the matches found so far.
+ */
+export async function searchSeeds(
+    config: MazeConfig,
+    criteria: SeedSearchCriteria,
+    options: SeedSearchOptions
+): Promise<SeedSearchResult[]> {
+    const { startSeed, count, maxResults = 60, batchSize = 25, onProgress, signal } = options;
+    const compare = compareResults(criteria);
+    let results: SeedSearchResult[] = [];
+    let matches = 0;
+
+    for (let i = 0; i < count; i++) {
+        if (signal?.aborted) break;
+
+        const seed = startSeed + i;
+        const data = generateMaze({ ...config, seed });
+        const stats = analyzeMaze(data);
+
+        if (matchesCriteria(stats, criteria)) {
+            matches++;
+            results.push({ seed, stats, pathD: data.pathD, solutionD: data.solutionD, startPoint: data.startPoint });
+            if (results.length > maxResults * 2) {
+                results = results.sort(compare).slice(0, maxResults);
+            }
+        }
+
+        if ((i + 1) % batchSize === 0 || i === count - 1) {
+            onProgress?.(i + 1, count, matches);
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    }
+
+    return results.sort(compare).slice(0, maxResults);
+}
@@ -0,0 +1,164 @@
+/**
+ * Maze solvers for playback. Each one explores the carved passages from the
+ * entry to the center and records every move, so the viewer can show how it
+ * searches rather than just the answer.
+ */
+
+import { MazeData, MazeNode } from '../types';
+
+export type SolverId = 'dfs' | 'bfs' | 'wallFollower';
+
+// One move of a solver (node ids)
+export interface SolverStep {
+  from: string | null; // null for the first step onto the entry
+  to: string;
+  backtrack: boolean; // walking back out of a dead end
+}
+
+export interface SolverRun {
+  steps: SolverStep[];
+  path: string[]; // entry to center; empty if the solver never got there
+}
+
+export interface MazeSolver {
+  id: SolverId;
+  label: string;
+  description: string;
+  solve: (data: MazeData) => SolverRun;
+}
+
+const TAU = 2 * Math.PI;
+
+const buildGraph = (data: MazeData) => {
+  const nodes = new Map<string, MazeNode>(data.nodes.map(n => [n.id, n]));
+  const adjacency = new Map<string, string[]>();
+  data.nodes.forEach(n => adjacency.set(n.id, []));
+  data.edges.forEach(e => {
+    adjacency.get(e.p1.id)!.push(e.p2.id);
+    adjacency.get(e.p2.id)!.push(e.p1.id);
+  });
+  const goal = data.nodes.find(n => n.r === 0)!.id;
+  return { nodes, adjacency, start: data.startNodeId, goal };
+};
+
+// --- Depth-first ---
+// Follows one passage as deep as it goes and walks back out of dead ends.
+const solveDFS = (data: MazeData): SolverRun => {
+  const { adjacency, start, goal } = buildGraph(data);
+  const steps: SolverStep[] = [{ from: null, to: start, backtrack: false }];
+  const visited = new Set([start]);
+  const stack = [start];
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    if (current === goal) return { steps, path: [...stack] };
+
+    const next = adjacency.get(current)!.find(n => !visited.has(n));
+    if (next) {
+      visited.add(next);
+      stack.push(next);
+      steps.push({ from: current, to: next, backtrack: false });
+    } else {
+      stack.pop();
+      if (stack.length > 0) steps.push({ from: current, to: stack[stack.length - 1], backtrack: true });
+    }
+  }
+
+  return { steps, path: [] };
+};
+
+// --- Breadth-first ---
+// Floods outwards one passage at a time; the first route to reach the goal is the shortest in steps.
+const solveBFS = (data: MazeData): SolverRun => {
+  const { adjacency, start, goal } = buildGraph(data);
+  const steps: SolverStep[] = [{ from: null, to: start, backtrack: false }];
+  const parent = new Map<string, string | null>([[start, null]]);
+  const queue = [start];
+
+  for (let head = 0; head < queue.length && !parent.has(goal); head++) {
+    const current = queue[head];
+    for (const next of adjacency.get(current)!) {
+      if (parent.has(next)) continue;
+      parent.set(next, current);
+      queue.push(next);
+      steps.push({ from: current, to: next, backtrack: false });
+      if (next === goal) break;
+    }
+  }
+
+  if (!parent.has(goal)) return { steps, path: [] };
+  const path: string[] = [];
+  for (let node: string | null = goal; node !== null; node = parent.get(node)!) path.unshift(node);
+  return { steps, path };
+};
+
+// --- Wall follower ---
+// Keeps its left hand on the wall: at every node it takes the leftmost passage,
+// turning back only at dead ends. Always escapes a perfect maze, but can circle
+// forever around a loop in a braided one, so the walk is capped.
+const solveWallFollower = (data: MazeData): SolverRun => {
+  const { nodes, adjacency, start, goal } = buildGraph(data);
+  const steps: SolverStep[] = [{ from: null, to: start, backtrack: false }];
+  const walked = new Set<string>(); // "from>to" passages already walked
+  const route = [start]; // the walk with loops erased
+
+  const startNode = nodes.get(start)!;
+  let previous = { x: startNode.x * 2, y: startNode.y * 2 }; // arrive from outside the rim
+  let current = start;
+  const maxSteps = data.edges.length * 4 + 1;
+
+  while (current !== goal && steps.length < maxSteps) {
+    const here = nodes.get(current)!;
+    const heading = Math.atan2(here.y - previous.y, here.x - previous.x);
+    const cameFrom = steps[steps.length - 1].from;
+
+    // SVG y points down, so a left turn is a negative angle; turning back comes last
+    let best: string | null = null;
+    let bestTurn = Infinity;
+    for (const id of adjacency.get(current)!) {
+      const n = nodes.get(id)!;
+      let turn = Math.atan2(n.y - here.y, n.x - here.x) - heading;
+      while (turn > Math.PI) turn -= TAU;
+      while (turn <= -Math.PI) turn += TAU;
+      if (id === cameFrom) turn = Math.PI;
+      if (turn < bestTurn) {
+        bestTurn = turn;
+        best = id;
+      }
+    }
+    if (best === null) break;
+
+    steps.push({ from: current, to: best, backtrack: walked.has(`${best}>${current}`) });
+    walked.add(`${current}>${best}`);
+
+    const seenAt = route.lastIndexOf(best);
+    if (seenAt >= 0) route.length = seenAt + 1;
+    else route.push(best);
+
+    previous = here;
+    current = best;
+  }
+
+  return { steps, path: current === goal ? route : [] };
+};
+
+export const SOLVERS: Record<SolverId, MazeSolver> = {
+  dfs: {
+    id: 'dfs',
+    label: 'Depth-first',
+    description: 'Follows each passage to its end and backs out of dead ends.',
+    solve: solveDFS,
+  },
+  bfs: {
+    id: 'bfs',
+    label: 'Breadth-first',
+    description: 'Floods every passage in step order; finds the fewest-step route.',
+    solve: solveBFS,
+  },
+  wallFollower: {
+    id: 'wallFollower',
+    label: 'Wall follower',
+    description: 'Left hand on the wall. Can circle forever in braided mazes.',
+    solve: solveWallFollower,
+  },
+};
@@ -0,0 +1,78 @@
+/**
+ * Named Growing Tree weight sets.
+ *
+ * The five difficulty levels are built in alongside a few textures found by
+ * experiment. Presets the user saves in the app live in localStorage.
+ */
+
+import { GrowingTreeTuning } from '../types';
+import { difficultyTuning } from './mazeAlgorithms';
+
+export interface TuningPreset {
+  id: string;
+  label: string;
+  description: string;
+  tuning: GrowingTreeTuning;
+}
+
+const STORAGE_KEY = 'maze-tuning-presets';
+
+export const BUILT_IN_PRESETS: TuningPreset[] = [
+  ...[1, 2, 3, 4, 5].map(level => ({
+    id: `difficulty${level}`,
+    label: `Difficulty ${level}`,
+    description: `The weights the difficulty slider uses at level ${level}.`,
+    tuning: difficultyTuning(level),
+  })),
+  {
+    id: 'spiral',
+    label: 'Spiral',
+    description: 'Rarely branches and hates turning, so passages run round the rings.',
+    tuning: { branchProb: 0.02, inertiaWeight: 3000, inwardBonus: 0, changePenalty: 500, outPenalty: 0 },
+  },
+  {
+    id: 'sunburst',
+    label: 'Sunburst',
+    description: 'Branches often and favours stepping outwards: straight spokes from the center.',
+    tuning: { branchProb: 0.6, inertiaWeight: 3000, inwardBonus: 0, changePenalty: 200, outPenalty: -2000 },
+  },
+  {
+    id: 'labyrinth',
+    label: 'Labyrinth',
+    description: 'Never branches, so one long path winds in and out with few dead ends.',
+    tuning: { branchProb: 0, inertiaWeight: 100, inwardBonus: 1200, changePenalty: 0, outPenalty: 40 },
+  },
+];
+
+/**
+ * Presets saved in this browser, oldest first. Empty outside the browser.
+ */
+export const loadSavedPresets = (): TuningPreset[] => {
+  try {
+    const raw = globalThis.localStorage?.getItem(STORAGE_KEY);
+    const presets = raw ? JSON.parse(raw) : [];
+    return Array.isArray(presets) ? presets : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Saves `tuning` under `label`, replacing a saved preset of the same name.
+ * Returns the updated list.
+ */
+export const savePreset = (label: string, tuning: GrowingTreeTuning): TuningPreset[] => {
+  const presets = loadSavedPresets().filter(p => p.label !== label);
+  presets.push({ id: `saved:${label}`, label, description: 'Saved in this browser.', tuning });
+  globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+/**
+ * Removes a saved preset. Returns the updated list.
+ */
+export const deletePreset = (id: string): TuningPreset[] => {
+  const presets = loadSavedPresets().filter(p => p.id !== id);
+  globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
@@ -0,0 +1,130 @@
+/**
+ * Main-thread handle for the maze Web Worker.
+ *
+ * Requests return promises; cancel() terminates the worker (the only way to stop
+ * a Clipper union midway) and rejects everything in flight with a cancellation
+ * error. A fresh worker is started lazily on the next request.
+ */
+
+import { MazeConfig, MazeData } from '../types';
+import { DFMReport } from './dfm';
+import { ExportFile, ExportFormat, ProgressCallback } from './exporters';
+import { SheetLayoutOptions } from './nesting';
+import { Playfield } from './playfield';
+import { MazeWorkerRequest, MazeWorkerResponse, MazeWorkerTask } from './workerMessages';
+
+interface PendingTask {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+export interface MazeWorker {
+  generate: (config: MazeConfig) => Promise<MazeData>;
+  exportFile: (data: MazeData, format: ExportFormat, onProgress?: ProgressCallback) => Promise<ExportFile>;
+  exportAssembly: (data: MazeData, format: ExportFormat, onProgress?: ProgressCallback) => Promise<ExportFile[]>;
+  exportSheetLayout: (mazes: MazeData[], options: SheetLayoutOptions, onProgress?: ProgressCallback) => Promise<ExportFile[]>;
+  buildPlayfield: (data: MazeData, onProgress?: ProgressCallback) => Promise<Playfield>;
+  checkManufacturability: (data: MazeData) => Promise<DFMReport>;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+const CANCELLED = 'Cancelled';
+
+/**
+ * True if a task promise was rejected because the worker was cancelled.
+ */
+export const isCancelled = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+export const createMazeWorker = (): MazeWorker => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingTask>();
+
+  const rejectAll = (error: Error) => {
+    pending.forEach(task => task.reject(error));
+    pending.clear();
+  };
+
+  const getWorker = (): Worker => {
+    if (worker) return worker;
+
+    worker = new Worker(new URL('./mazeWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<MazeWorkerResponse>) => {
+      const response = event.data;
+      const task = pending.get(response.id);
+      if (!task) return;
+
+      switch (response.type) {
+        case 'progress':
+          task.onProgress?.(response.progress, response.stage);
+          break;
+        case 'generated':
+          pending.delete(response.id);
+          task.resolve(response.data);
+          break;
+        case 'exported':
+          pending.delete(response.id);
+          task.resolve(response.file);
+          break;
+        case 'exportedFiles':
+          pending.delete(response.id);
+          task.resolve(response.files);
+          break;
+        case 'playfield':
+          pending.delete(response.id);
+          task.resolve(response.field);
+          break;
+        case 'dfm':
+          pending.delete(response.id);
+          task.resolve(response.report);
+          break;
+        case 'error':
+          pending.delete(response.id);
+          task.reject(new Error(response.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      rejectAll(new Error(event.message || 'Worker failed'));
+      worker?.terminate();
+      worker = null;
+    };
+
+    return worker;
+  };
+
+  // Each request type is answered by one response type, so T is known from the request
+  const run = <T>(request: MazeWorkerTask, onProgress?: ProgressCallback): Promise<T> => {
+    const id = nextId++;
+    return new Promise<T>((resolve, reject) => {
+      pending.set(id, { resolve: value => resolve(value as T), reject, onProgress });
+      getWorker().postMessage({ ...request, id } as MazeWorkerRequest);
+    });
+  };
+
+  const cancel = () => {
+    if (worker) {
+      worker.terminate();
+      worker = null;
+    }
+    const error = new Error(CANCELLED);
+    error.name = 'AbortError';
+    rejectAll(error);
+  };
+
+  return {
+    generate: (config) => run<MazeData>({ type: 'generate', config }),
+    exportFile: (data, format, onProgress) => run<ExportFile>({ type: 'export', format, data }, onProgress),
+    exportAssembly: (data, format, onProgress) => run<ExportFile[]>({ type: 'assembly', format, data }, onProgress),
+    exportSheetLayout: (mazes, options, onProgress) => run<ExportFile[]>({ type: 'layout', mazes, options }, onProgress),
+    buildPlayfield: (data, onProgress) => run<Playfield>({ type: 'playfield', data }, onProgress),
+    checkManufacturability: (data) => run<DFMReport>({ type: 'dfm', data }),
+    cancel,
+    dispose: cancel,
+  };
+};
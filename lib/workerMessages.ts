@@ -0,0 +1,32 @@
+/**
+ * Message protocol between the UI and the maze Web Worker (lib/mazeWorker.ts).
+ * Every request carries an id that is echoed on all of its responses.
+ */
+
+import { MazeConfig, MazeData } from '../types';
+import { DFMReport } from './dfm';
+import { ExportFile, ExportFormat } from './exporters';
+import { SheetLayoutOptions } from './nesting';
+import { Playfield } from './playfield';
+
+export type MazeWorkerRequest =
+  | { id: number; type: 'generate'; config: MazeConfig }
+  | { id: number; type: 'export'; format: ExportFormat; data: MazeData }
+  | { id: number; type: 'assembly'; format: ExportFormat; data: MazeData }
+  | { id: number; type: 'layout'; mazes: MazeData[]; options: SheetLayoutOptions }
+  | { id: number; type: 'playfield'; data: MazeData }
+  | { id: number; type: 'dfm'; data: MazeData };
+
+// A request before the client assigns its id
+export type MazeWorkerTask = MazeWorkerRequest extends infer R
+  ? R extends MazeWorkerRequest ? Omit<R, 'id'> : never
+  : never;
+
+export type MazeWorkerResponse =
+  | { id: number; type: 'progress'; progress: number; stage: string }
+  | { id: number; type: 'generated'; data: MazeData }
+  | { id: number; type: 'exported'; file: ExportFile }
+  | { id: number; type: 'exportedFiles'; files: ExportFile[] }
+  | { id: number; type: 'playfield'; field: Playfield }
+  | { id: number; type: 'dfm'; report: DFMReport }
+  | { id: number; type: 'error'; message: string };
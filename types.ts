@@ -1,5 +1,29 @@
+// Identifiers for the carving strategies in lib/mazeAlgorithms.ts
+export type MazeAlgorithmId = 'growingTree' | 'kruskal' | 'wilson' | 'eller' | 'recursiveDivision';
+
+// PRNG generations in lib/random.ts. 1 = legacy sin-based, 2 = xoshiro128**
+export type RngVersion = 1 | 2;
+
+// How adjacent rings are linked, see lib/polarGrid.ts
+export type GridTopology = 'nearest' | 'overlap';
+
+// DXF flavour written by lib/dxfWriter.ts. R12 = flattened polylines, R2000 = LWPOLYLINE arcs and true circles
+export type DXFVersion = 'R12' | 'R2000';
+
+// How the puck gets in. 'hole' = through the cover above the start, 'side' = through a slot in the rim
+export type EntryMode = 'hole' | 'side';
+
+// Outline of the board, see lib/board.ts. 'polygon' = regular polygon with its corners on the diameter
+export type BoardShape = 'circle' | 'polygon';
+
+// What holds the removable entry wedge in, see createEntryWedge in lib/clipperUtils.ts
+export type WedgeRetention = 'ears' | 'dovetail' | 'screw';
+
 export interface MazeConfig {
-  diameter: number; // in mm
+  diameter: number; // in mm; corner to corner for a polygon board
+  boardShape: BoardShape; // 'circle' or a regular 'polygon' (flat side up)
+  boardSides: number; // sides of a polygon board, e.g. 6 for a hexagon
+  innerDiameter: number; // mm; hole through an annular board, which becomes the goal. 0 = full board with a center hole
   wallWidth: number; // in mm
   corridorWidth: number; // in mm
   difficulty: number; // 1-5
@@ -7,6 +31,42 @@ export interface MazeConfig {
   seed: number;
   holeRadius: number; // radius of center hole and entry hole in mm
   showEntryWedge: boolean; // generate removable wedge cutout for middle layer
+  wedgeRetention: WedgeRetention; // 'ears' for a rubber band, 'dovetail' keys, or one 'screw'
+  wedgeEarLength: number; // mm the ears (or dovetail keys) stick out from the wedge's sides
+  wedgeEarPosition: number; // 0-100, % of the way from the entry to the rim where the ears start (or the key / screw sits)
+  wedgeClearance: number; // mm the wedge is shrunk on every side so it slides in, 0 = cut on one shared line
+  algorithm: MazeAlgorithmId; // carving strategy used to build the spanning tree
+  rngVersion: RngVersion; // PRNG generation; keep 1 to replay seeds made before versioning
+  gridTopology: GridTopology; // ring linking; 'nearest' replays seeds made before 'overlap' existed
+  braid: number; // 0-100, percentage of dead ends opened into loops (0 = perfect maze)
+  dxfVersion: DXFVersion; // DXF export format; R12 reproduces files exported before R2000 support
+  arcTolerance: number; // mm; cut outlines keep true arcs within this tolerance, 0 = line segments only
+  chordTolerance: number; // mm; furthest a line segment may stray from its curve, 0 = fixed segment counts
+  kerfWidth: number; // mm of material the laser burns away; cut lines are shifted by half of it, 0 = none
+  boltHoleCount: number; // bolt / alignment-pin holes through every assembly sheet, 0 = none
+  boltHoleDiameter: number; // mm
+  minWallThickness: number; // mm; the DFM check flags walls thinner than this
+  tuning: GrowingTreeTuning | null; // Growing Tree weights; null derives them from `difficulty`
+  scoreWeights: ScoreWeights; // how the "hardest start" search weighs each route metric
+  entryAngle: number; // degrees clockwise from 12 o'clock where the entry is rotated to
+  entryRank: number; // 1 = hardest entry, 2 = second hardest, ...
+  entryMode: EntryMode; // 'hole' cuts an entry hole over the start; 'side' runs the start corridor out through the rim
+}
+
+// Multipliers of the start-point score
+export interface ScoreWeights {
+  length: number; // per passage
+  inflections: number; // per in/out reversal
+  rotation: number; // per radian swept around the center
+}
+
+// Weights of the Growing Tree carver's neighbour choice
+export interface GrowingTreeTuning {
+  branchProb: number; // 0-1, chance to grow from a random active cell instead of the newest
+  inertiaWeight: number; // bonus for continuing in the direction the cell was entered
+  inwardBonus: number; // bonus for stepping towards the center
+  changePenalty: number; // penalty for turning
+  outPenalty: number; // penalty for stepping outwards; negative favours it
 }
 
 export interface Point {
@@ -25,16 +85,57 @@ export interface MazeNode {
   parent: MazeNode | null;
 }
 
+// An open passage between two adjacent nodes
+export interface MazeEdge {
+  p1: MazeNode;
+  p2: MazeNode;
+}
+
 export interface MazeData {
   config: MazeConfig;
   // A string containing the SVG path data for all the corridors (the "puck" tracks)
   pathD: string;
   // A string containing the SVG path data for the solution line
   solutionD: string;
+  // The side-entry slot: a line from the start out to the rim. Empty in 'hole' entry mode
+  entrancePathD: string;
   startPoint: Point;
+  startNodeId: string;
   endPoint: Point;
   // We keep the raw nodes just in case, but mostly we consume the pre-calculated paths
-  nodes: MazeNode[]; 
+  nodes: MazeNode[];
+  // All open passages, including the extra loops added by braiding
+  edges: MazeEdge[];
+  // The best-scoring entry points, hardest first (positions after rotation)
+  entryCandidates: EntryCandidate[];
+}
+
+export interface EntryCandidate {
+  nodeId: string;
+  point: Point;
+  length: number; // passages to the center
+  inflections: number;
+  totalRotation: number; // radians
+  score: number;
+}
+
+// Difficulty metrics reported by analyzeMaze (lib/mazeStats.ts)
+export interface MazeStats {
+  solutionLengthMm: number;
+  solutionSteps: number;
+  nodeCount: number;
+  ringCount: number;
+  deadEndCount: number;
+  deadEndRatio: number; // dead ends per node
+  deadEndsPerRing: number[]; // index = ring, 0 = center
+  junctionCount: number; // nodes with 3+ passages
+  branchingFactor: number; // mean ways forward at non-leaf nodes
+  loopCount: number; // extra passages beyond a spanning tree (braiding)
+  radialInflections: number;
+  totalRotation: number; // radians
+  longestDeadEndMm: number; // longest branch off the solution
+  score: number;
+  scoreBreakdown: { length: number; inflections: number; rotation: number };
 }
 
 // Minimal type definition for the global makerjs object loaded via CDN